@@ -0,0 +1,188 @@
+import type { CachedMetadata, ListItemCache } from 'obsidian';
+
+// A list item line: "- item", "* item", "+ item", "1. item" or "1) item"
+export const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])(\s|$)/;
+
+/**
+ * Finds the content of a block referenced by ^blockId.
+ * Multi-line paragraphs, blockquotes, tables and code blocks are returned in full, list items
+ * come with their nested children, and a ^blockId on a line of its own refers to the block above it.
+ * Uses the metadata cache when it knows the block, otherwise reads the block from the text.
+ * @param fileContent Full content of the note
+ * @param blockId The block ID without the leading ^
+ * @param cache Metadata cache of the note, if available
+ * @param removeAllIds Also remove the IDs of other blocks inside it, like those of nested list items
+ * @returns The block without its ID, or null if the note has no such block
+ */
+export function resolveBlock(fileContent: string, blockId: string, cache?: CachedMetadata | null, removeAllIds = false): string | null {
+    const lines = fileContent.split('\n');
+    const range = (cache ? getCachedBlockRange(lines, blockId, cache) : null) ?? getTextBlockRange(lines, blockId);
+    if (!range) {
+        return null;
+    }
+
+    return cleanBlockLines(lines.slice(range.start, range.end + 1), removeAllIds ? null : blockId);
+}
+
+interface LineRange {
+    start: number;
+    end: number; // Inclusive
+}
+
+function isStandaloneId(line: string, blockId: string): boolean {
+    return line.trim() === `^${blockId}`;
+}
+
+function indentationOf(line: string): number {
+    return (line.match(/^\s*/)?.[0] ?? '').replace(/\t/g, '    ').length;
+}
+
+/**
+ * Finds the block's lines from the metadata cache
+ */
+function getCachedBlockRange(lines: string[], blockId: string, cache: CachedMetadata): LineRange | null {
+    const block = cache.blocks?.[blockId];
+    if (!block) {
+        return null;
+    }
+
+    let start = block.position.start.line;
+    let end = block.position.end.line;
+
+    // An ID on its own line belongs to the section above it
+    if (lines.slice(start, end + 1).every(line => !line.trim() || isStandaloneId(line, blockId))) {
+        const previous = (cache.sections ?? []).filter(section => section.position.end.line < start).pop();
+        if (!previous) {
+            return null;
+        }
+        return { start: previous.position.start.line, end: previous.position.end.line };
+    }
+
+    // A list item takes its nested items with it
+    const listItems = cache.listItems ?? [];
+    const item = listItems.filter(candidate =>
+        candidate.position.start.line <= start && candidate.position.end.line >= start).pop();
+    if (item) {
+        start = item.position.start.line;
+        end = Math.max(end, getSubtreeEnd(item, listItems));
+    }
+
+    return { start, end };
+}
+
+/**
+ * Finds the last line of a list item's nested items
+ */
+function getSubtreeEnd(item: ListItemCache, listItems: ListItemCache[]): number {
+    const byLine = new Map(listItems.map(candidate => [candidate.position.start.line, candidate]));
+    const itemLine = item.position.start.line;
+    let end = item.position.end.line;
+
+    for (const candidate of listItems) {
+        // Walk up the parents to see whether the item is one of them
+        let parent = byLine.get(candidate.parent);
+        while (parent && parent.position.start.line !== itemLine) {
+            parent = byLine.get(parent.parent);
+        }
+        if (parent) {
+            end = Math.max(end, candidate.position.end.line);
+        }
+    }
+
+    return end;
+}
+
+/**
+ * Finds the block's lines by reading the text, for notes the cache doesn't cover
+ */
+function getTextBlockRange(lines: string[], blockId: string): LineRange | null {
+    const escapedId = blockId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const idPattern = new RegExp(`(^|\\s)\\^${escapedId}\\s*$`);
+    const idLine = lines.findIndex(line => idPattern.test(line));
+    if (idLine === -1) {
+        return null;
+    }
+
+    if (isStandaloneId(lines[idLine], blockId)) {
+        return getPrecedingBlockRange(lines, idLine);
+    }
+
+    // Walk up to the start of the paragraph, or to the list item the line belongs to
+    let start = idLine;
+    while (!LIST_ITEM_PATTERN.test(lines[start]) && start > 0 && lines[start - 1].trim() && !/^\s*#{1,6}\s/.test(lines[start - 1])) {
+        start--;
+    }
+
+    let end = idLine;
+    if (LIST_ITEM_PATTERN.test(lines[start])) {
+        // Nested items are indented deeper than the item itself
+        const itemIndentation = indentationOf(lines[start]);
+        while (end + 1 < lines.length && lines[end + 1].trim() && indentationOf(lines[end + 1]) > itemIndentation) {
+            end++;
+        }
+    }
+
+    return { start, end };
+}
+
+/**
+ * Finds the block that ends above a standalone ID line
+ */
+function getPrecedingBlockRange(lines: string[], idLine: number): LineRange | null {
+    let end = idLine - 1;
+    while (end >= 0 && !lines[end].trim()) {
+        end--;
+    }
+    if (end < 0) {
+        return null;
+    }
+
+    // Code blocks and comments may contain blank lines, so look for their opening line
+    const closing = lines[end].trim();
+    const opener = /^(`{3,}|~{3,})$/.test(closing) ? closing[0] : (closing === '%%' ? '%%' : null);
+    if (opener) {
+        for (let start = end - 1; start >= 0; start--) {
+            const line = lines[start].trim();
+            if (opener === '%%' ? line.startsWith('%%') : line.startsWith(opener.repeat(3))) {
+                return { start, end };
+            }
+        }
+    }
+
+    let start = end;
+    while (start > 0 && lines[start - 1].trim()) {
+        start--;
+    }
+    return { start, end };
+}
+
+/**
+ * Removes the block ID, or every block ID outside code blocks when no ID is given,
+ * and the indentation the block had in its note
+ */
+function cleanBlockLines(lines: string[], blockId: string | null): string {
+    const idPattern = blockId ? blockId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : '[A-Za-z0-9-]+';
+    const standalonePattern = new RegExp(`^\\s*\\^${idPattern}\\s*$`);
+    const trailingPattern = new RegExp(`\\s*\\^${idPattern}\\s*$`);
+
+    let inCode = false;
+    const cleaned: string[] = [];
+    for (const line of lines) {
+        if (/^\s*(`{3,}|~{3,})/.test(line)) {
+            inCode = !inCode;
+        }
+        if (inCode && !blockId) {
+            cleaned.push(line);
+        } else if (!standalonePattern.test(line)) {
+            cleaned.push(line.replace(trailingPattern, ''));
+        }
+    }
+
+    // A nested list item keeps its children's structure relative to itself
+    const indentation = LIST_ITEM_PATTERN.test(cleaned[0] ?? '') ? cleaned[0].match(/^[ \t]*/)?.[0] ?? '' : '';
+    const dedented = indentation
+        ? cleaned.map(line => line.startsWith(indentation) ? line.slice(indentation.length) : line)
+        : cleaned;
+
+    return dedented.join('\n').replace(/\s+$/, '');
+}
@@ -0,0 +1,107 @@
+import type { AllCanvasNodeData, CanvasData } from 'obsidian/canvas';
+
+/**
+ * Checks that a card has a position and size, and the field its type is read from
+ */
+function isValidNode(node: unknown): node is AllCanvasNodeData {
+    if (!node || typeof node !== 'object') {
+        return false;
+    }
+
+    const data = node as Record<string, unknown>;
+    if (!['x', 'y', 'width', 'height'].every(key => typeof data[key] === 'number')) {
+        return false;
+    }
+
+    switch (data.type) {
+        case 'text':
+            return typeof data.text === 'string';
+        case 'file':
+            return typeof data.file === 'string' && (data.subpath === undefined || typeof data.subpath === 'string');
+        case 'link':
+            return typeof data.url === 'string';
+        case 'group':
+            return data.label === undefined || typeof data.label === 'string';
+        default:
+            return true;
+    }
+}
+
+/**
+ * Parses the JSON of a .canvas file. Cards that are missing what they need to be read are skipped.
+ * @returns The canvas, or null if the file is empty or not a canvas
+ */
+export function parseCanvas(json: string): CanvasData | null {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch (error) {
+        return null;
+    }
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return null;
+    }
+    const nodes = (data as CanvasData).nodes;
+    if (nodes !== undefined && !Array.isArray(nodes)) {
+        return null;
+    }
+    return { ...(data as CanvasData), nodes: (nodes ?? []).filter(isValidNode) };
+}
+
+/**
+ * Turns a canvas into a Markdown document, reading the cards top to bottom, left to right.
+ * Text cards are copied as is, notes and files become embeds so the pipeline can resolve them,
+ * and web links become Markdown links. Groups become headings above the cards inside them.
+ */
+export function canvasToMarkdown(data: CanvasData): string {
+    const nodes = data.nodes ?? [];
+    const area = (node: AllCanvasNodeData) => node.width * node.height;
+    const contains = (group: AllCanvasNodeData, node: AllCanvasNodeData) => group !== node &&
+        node.x >= group.x && node.y >= group.y &&
+        node.x + node.width <= group.x + group.width &&
+        node.y + node.height <= group.y + group.height;
+
+    // Every card belongs to the smallest group around it
+    const parents = new Map<AllCanvasNodeData, AllCanvasNodeData | null>();
+    for (const node of nodes) {
+        const groups = nodes.filter(group => group.type === 'group' && contains(group, node));
+        groups.sort((a, b) => area(a) - area(b));
+        parents.set(node, groups[0] ?? null);
+    }
+
+    const readingOrder = (a: AllCanvasNodeData, b: AllCanvasNodeData) => a.y - b.y || a.x - b.x;
+
+    const render = (parent: AllCanvasNodeData | null, level: number): string[] => {
+        const blocks: string[] = [];
+        const children = nodes.filter(node => parents.get(node) === parent).sort(readingOrder);
+
+        for (const node of children) {
+            switch (node.type) {
+                case 'text':
+                    blocks.push(node.text.trim());
+                    break;
+                case 'file': {
+                    const target = node.file.endsWith('.md') ? node.file.slice(0, -3) : node.file;
+                    blocks.push(`![[${target}${node.subpath ?? ''}]]`);
+                    break;
+                }
+                case 'link':
+                    blocks.push(`[${node.url}](${node.url})`);
+                    break;
+                case 'group': {
+                    const inner = render(node, Math.min(level + 1, 6));
+                    if (node.label) {
+                        blocks.push(`${'#'.repeat(level)} ${node.label}`);
+                    }
+                    blocks.push(...inner);
+                    break;
+                }
+            }
+        }
+
+        return blocks.filter(block => block);
+    };
+
+    return render(null, 2).join('\n\n');
+}
@@ -0,0 +1,593 @@
+import type { CachedMetadata, HeadingCache } from 'obsidian';
+import { resolveBlock } from './blocks';
+
+// A file in the vault, as far as the exporter needs to know it
+export interface VaultFile {
+    path: string;
+    extension: string;
+}
+
+/**
+ * What the exporter needs from a vault. The plugin implements it with Obsidian's vault
+ * and metadata cache, tests with an in-memory vault.
+ */
+export interface VaultAccess {
+    read(path: string): Promise<string>;
+    resolveLink(linkpath: string, sourcePath: string): VaultFile | null;
+    getFileCache(path: string): CachedMetadata | null;
+}
+
+/**
+ * What happens to the heading line of an embedded ![[Note#Heading]] section:
+ * keep it as written, drop it, or move the section's headings to fit below the heading the embed sits under
+ */
+export type HeadingLineMode = 'keep' | 'drop' | 'fit';
+
+/**
+ * How resolved embeds are set apart from the note's own text: not at all, as a blockquote,
+ * or as a blockquote that starts with a "From [[Note]]:" line
+ */
+export type EmbedWrapper = 'none' | 'blockquote' | 'source';
+
+export interface EmbedOptions {
+    maxEmbedDepth: number;
+    headingLine?: HeadingLineMode;
+    shiftHeadings?: boolean; // Move embedded headings below the heading the embed sits under
+    wrapper?: EmbedWrapper;
+    removeBlockIds?: boolean; // Also remove the IDs of other blocks inside an embedded block
+    // Turns an embed's source into the text of its footnote. When given, every resolved embed gets a
+    // footnote marker and a "Sources" section is added at the end
+    formatSource?: (path: string, subpath: string) => string;
+    // Converts an embedded attachment to text; without it attachment embeds are kept as written
+    resolveAttachment?: (file: VaultFile, embed: string) => Promise<string>;
+}
+
+/**
+ * Replaces fenced code blocks, math blocks, inline code and inline math with placeholders,
+ * so regex-based transforms leave them exactly as written.
+ * Pass the transformed text to restore to put the original code back.
+ */
+export function protectCode(content: string): { text: string; restore: (text: string) => string } {
+    const parts: string[] = [];
+    const placeholder = (part: string) => {
+        parts.push(part);
+        return `\uE000${parts.length - 1}\uE001`;
+    };
+
+    // Inline code (`code`, ``co`de``) and inline math ($x^2$) within a run of text lines
+    const protectInline = (text: string) => text
+        .replace(/(`+)([^`\n]|[^`\n][^\n]*?[^`\n])\1(?!`)/g, placeholder)
+        .replace(/(?<![\\$])\$(?![\s$])[^$\n]*?[^\s\\$]\$(?![\d$])|(?<![\\$])\$[^\s$\\]\$(?![\d$])/g, placeholder);
+
+    const lines = content.split('\n');
+    const result: string[] = [];
+    let textLines: string[] = [];
+
+    const flushText = () => {
+        if (textLines.length > 0) {
+            result.push(protectInline(textLines.join('\n')));
+            textLines = [];
+        }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+        const isMathStart = line.trim().startsWith('$$');
+
+        if (!fenceMatch && !isMathStart) {
+            textLines.push(line);
+            continue;
+        }
+
+        // Find the closing line; unclosed blocks run to the end of the note
+        let endLine = lines.length - 1;
+        if (fenceMatch) {
+            const fence = fenceMatch[1];
+            for (let j = i + 1; j < lines.length; j++) {
+                // A fence closes with the same character, at least as long as the opening one
+                const trimmed = lines[j].trim();
+                if (trimmed[0] === fence[0] && /^(`{3,}|~{3,})$/.test(trimmed) && trimmed.length >= fence.length) {
+                    endLine = j;
+                    break;
+                }
+            }
+        } else if (line.trim().length > 2 && line.trim().slice(2).includes('$$')) {
+            // $$ math $$ on a single line
+            endLine = i;
+        } else {
+            for (let j = i + 1; j < lines.length; j++) {
+                if (lines[j].includes('$$')) {
+                    endLine = j;
+                    break;
+                }
+            }
+        }
+
+        flushText();
+        result.push(placeholder(lines.slice(i, endLine + 1).join('\n')));
+        i = endLine;
+    }
+    flushText();
+
+    const restore = (text: string) => text.replace(/\uE000(\d+)\uE001/g, (match, index: string) => parts[Number(index)] ?? match);
+    return { text: result.join('\n'), restore };
+}
+
+/**
+ * Helper function to clean block content by removing block IDs
+ * @param content The block content that may contain a block ID
+ * @param blockId The specific blockId to remove (optional)
+ * @returns Cleaned content without block IDs
+ */
+export function cleanBlockContent(content: string, blockId?: string): string {
+    if (!content) return "";
+
+    // First try to remove the specific block ID if provided
+    if (blockId) {
+        content = content.replace(new RegExp(`\\^${blockId}\\s*$`), '');
+    }
+
+    // Also remove any other block IDs that might be present
+    content = content.replace(/\s*\^[a-zA-Z0-9]+\s*$/g, '');
+
+    // Trim only trailing whitespace to preserve indentation
+    return content.replace(/\s+$/, '');
+}
+
+/**
+ * Clean all block IDs from content
+ */
+export function cleanAllBlockIds(content: string): string {
+    // Code and math are left exactly as written
+    const { text, restore } = protectCode(content);
+
+    // Split into lines to process each line
+    const lines = text.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        // Apply block ID cleaning to each line
+        lines[i] = cleanBlockContent(lines[i]);
+    }
+
+    return restore(lines.join('\n'));
+}
+
+/**
+ * Preserves the nested list structure in markdown content
+ * This fixes issues where indented list items lose their indentation
+ * @param content The markdown content to process
+ * @returns Processed content with preserved list structure
+ */
+export function preserveNestedLists(content: string): string {
+    // First, find all list items and mark their levels
+    const lines = content.split('\n');
+
+    // No processing needed for single line
+    if (lines.length <= 1) {
+        return content;
+    }
+
+    // Keep track of list hierarchy
+    let currentListLevel = 0;
+    let inList = false;
+    const listLevels: number[] = new Array(lines.length).fill(0);
+    const isListItem: boolean[] = new Array(lines.length).fill(false);
+
+    // First pass: detect all list items and their levels
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        // Check if this line is a list item (starts with - or * or number. followed by space)
+        const listItemMatch = line.match(/^([\s]*)(-|\*|\d+\.)\s/);
+
+        if (listItemMatch) {
+            // This is a list item
+            const indentLevel = listItemMatch[1].length;
+            isListItem[i] = true;
+
+            // Determine the list level based on indentation
+            if (!inList) {
+                // Start of a new list
+                inList = true;
+                currentListLevel = 1;
+            } else if (indentLevel > 0) {
+                // This is a nested list item
+                currentListLevel = Math.floor(indentLevel / 2) + 1;
+            }
+
+            listLevels[i] = currentListLevel;
+
+            // Check if the next line is a continuation of this list item
+            if (i + 1 < lines.length) {
+                const nextLine = lines[i + 1];
+                const nextLineMatch = nextLine.match(/^([\s]*)(-|\*|\d+\.)\s/);
+
+                if (!nextLineMatch && nextLine.trim()) {
+                    // Next line is not a list item but has content - mark it as a continuation
+                    // Check if there's any indentation
+                    const indentMatch = nextLine.match(/^([\s]*)/);
+                    const nextLineIndent = indentMatch && indentMatch[1] !== undefined ? indentMatch[1].length : 0;
+
+                    // If it's not already properly indented, record that we need to preserve its indentation
+                    if (nextLineIndent <= indentLevel) {
+                        // This is part of the current list item and needs to maintain proper indentation
+                        listLevels[i + 1] = currentListLevel;
+                    }
+                }
+            }
+        } else if (inList && line.trim()) {
+            // This is not a list item but has content - could be a continuation or nested content
+            const indentMatch = line.match(/^([\s]*)/);
+            const indentLevel = indentMatch ? indentMatch[1].length : 0;
+
+            // Preserve existing indentation rather than replacing it
+            listLevels[i] = Math.max(1, Math.floor(indentLevel / 2) + 1);
+        } else if (!line.trim()) {
+            // Empty line, reset list context if we were in a list
+            inList = false;
+            currentListLevel = 0;
+        }
+    }
+
+    // Now we have identified all the list items and their levels
+    // No need to modify the content as we're preserving the original indentation
+    return lines.join('\n');
+}
+
+/**
+ * Finds the headings of a note without a metadata cache, skipping fenced code blocks
+ */
+export function findHeadings(lines: string[]): HeadingCache[] {
+    const headings: HeadingCache[] = [];
+    let fence: string | null = null;
+
+    lines.forEach((line, index) => {
+        const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+        if (fenceMatch) {
+            if (!fence) {
+                fence = fenceMatch[1];
+            } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+                fence = null;
+            }
+            return;
+        }
+
+        const headingMatch = !fence && line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+        if (headingMatch) {
+            const position = { line: index, col: 0, offset: 0 };
+            headings.push({ heading: headingMatch[2], level: headingMatch[1].length, position: { start: position, end: position } });
+        }
+    });
+
+    return headings;
+}
+
+/**
+ * Normalizes heading text the way Obsidian compares headings in links: link and formatting
+ * syntax is dropped, characters that can't appear in a link become spaces, and case is ignored
+ */
+export function normalizeHeading(heading: string): string {
+    return heading
+        .replace(/\[\[([^\]|]*)\|([^\]]*)\]\]/g, '$2') // [[link|alias]]
+        .replace(/\[\[([^\]]*)\]\]/g, '$1') // [[link]]
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1') // [text](url)
+        .replace(/[*_~=`]/g, '') // Bold, italics, strikethrough, highlights and code
+        .replace(/[#|^:%[\]\\]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .toLowerCase();
+}
+
+/**
+ * Gets a heading and everything below it, up to the next heading of the same or a higher level
+ * @param fileContent Full content of the note
+ * @param headingPath Heading text, or a nested path like "Parent#Child" to pick one of several headings with the same text
+ * @param cache Metadata cache of the note, if available
+ * @returns The section including its heading line, or null if the note has no such heading
+ */
+export function getHeadingContent(fileContent: string, headingPath: string, cache?: CachedMetadata | null): string | null {
+    const lines = fileContent.split('\n');
+    const headings = cache?.headings ?? findHeadings(lines);
+    const path = headingPath.split('#').map(normalizeHeading).filter(part => part);
+    if (path.length === 0) {
+        return null;
+    }
+
+    const index = headings.findIndex((heading, i) => {
+        if (normalizeHeading(heading.heading) !== path[path.length - 1]) {
+            return false;
+        }
+
+        // The rest of the path has to appear, in order, among the heading's parents
+        const parents: string[] = [];
+        let level = heading.level;
+        for (let j = i - 1; j >= 0 && level > 1; j--) {
+            if (headings[j].level < level) {
+                parents.unshift(normalizeHeading(headings[j].heading));
+                level = headings[j].level;
+            }
+        }
+
+        let parentIndex = 0;
+        for (const part of path.slice(0, -1)) {
+            while (parentIndex < parents.length && parents[parentIndex] !== part) {
+                parentIndex++;
+            }
+            if (parentIndex === parents.length) {
+                return false;
+            }
+            parentIndex++;
+        }
+        return true;
+    });
+    if (index === -1) {
+        return null;
+    }
+
+    const match = headings[index];
+    const next = headings.slice(index + 1).find(h => h.level <= match.level);
+    const endLine = next ? next.position.start.line : lines.length;
+
+    return lines.slice(match.position.start.line, endLine).join('\n').trim();
+}
+
+/**
+ * Moves every heading in the content up or down by the same number of levels, keeping them between H1 and H6.
+ * Headings in code blocks are left alone.
+ */
+export function shiftHeadings(content: string, delta: number): string {
+    if (delta === 0) {
+        return content;
+    }
+
+    const { text, restore } = protectCode(content);
+    return restore(text.replace(/^(#{1,6})(?=\s)/gm, (hashes: string) =>
+        '#'.repeat(Math.min(6, Math.max(1, hashes.length + delta)))));
+}
+
+/**
+ * Finds the level of the last heading before a position, 0 if there is none
+ */
+function getHeadingLevelAt(content: string, position: number): number {
+    const headings = content.slice(0, position).match(/^#{1,6}(?=\s)/gm);
+    return headings ? headings[headings.length - 1].length : 0;
+}
+
+/**
+ * Moves the headings of embedded content so its top heading sits one level below the host heading.
+ * Content embedded above the host's first heading keeps its levels.
+ */
+function fitHeadings(content: string, hostLevel: number): string {
+    const { text } = protectCode(content);
+    const levels = (text.match(/^#{1,6}(?=\s)/gm) ?? []).map(hashes => hashes.length);
+    if (hostLevel === 0 || levels.length === 0) {
+        return content;
+    }
+    return shiftHeadings(content, hostLevel + 1 - Math.min(...levels));
+}
+
+/**
+ * Quotes resolved embed content, optionally with a line naming where it came from
+ * @param content The resolved content
+ * @param wrapper How to wrap it
+ * @param source The embed target as written, e.g. "Other Note#Heading"
+ */
+function wrapEmbed(content: string, wrapper: EmbedWrapper, source: string): string {
+    if (wrapper === 'none') {
+        return content;
+    }
+
+    const quoted = content.split('\n').map(line => line ? `> ${line}` : '>').join('\n');
+    return wrapper === 'source' ? `> From [[${source}]]:\n>\n${quoted}` : quoted;
+}
+
+/**
+ * Adds a marker for the embed's source after resolved content. Markers are numbered once the
+ * whole note is resolved, so repeated sources share a number.
+ */
+function addSourceMarker(content: string, path: string, subpath: string): string {
+    const marker = `\uE002${path}#${subpath}\uE003`;
+
+    // A marker after a closing fence, table row or math block would become part of it
+    const lastLine = content.split('\n').pop()?.trim() ?? '';
+    if (/^(```|~~~|\||\$\$)/.test(lastLine)) {
+        return `${content}\n${marker}`;
+    }
+    return `${content}${marker}`;
+}
+
+/**
+ * Replaces source markers with numbered footnotes and lists the sources at the end
+ */
+function numberSources(content: string, formatSource: (path: string, subpath: string) => string): string {
+    const numbers = new Map<string, number>();
+    content = content.replace(/\uE002([^\uE003]*)\uE003/g, (match, key: string) => {
+        if (!numbers.has(key)) {
+            numbers.set(key, numbers.size + 1);
+        }
+        return `[^source-${numbers.get(key)}]`;
+    });
+
+    if (numbers.size === 0) {
+        return content;
+    }
+
+    const sources = Array.from(numbers, ([key, number]) => {
+        const separator = key.indexOf('#');
+        return `[^source-${number}]: ${formatSource(key.slice(0, separator), key.slice(separator + 1))}`;
+    });
+    return `${content.replace(/\s+$/, '')}\n\n## Sources\n\n${sources.join('\n')}\n`;
+}
+
+/**
+ * Applies the heading line option to an embedded section
+ * @param section The section, starting with its heading line
+ * @param mode What to do with the heading line
+ * @param hostLevel Level of the heading the embed sits under in the host note, 0 for none
+ */
+function adjustSectionHeading(section: string, mode: HeadingLineMode, hostLevel: number): string {
+    if (mode === 'drop') {
+        return section.split('\n').slice(1).join('\n').trim();
+    }
+
+    const level = section.match(/^#{1,6}/)?.[0].length;
+    if (mode === 'fit' && level && hostLevel > 0) {
+        // The section becomes a subsection of the heading it is embedded under
+        return shiftHeadings(section, hostLevel + 1 - level);
+    }
+
+    return section;
+}
+
+/**
+ * Adds the note's path to links into the note itself, [[#Heading]] and [[^blockId]],
+ * so they still point there once the note's text is embedded in another one
+ * @param content Text of the embedded note
+ * @param notePath Path of the embedded note
+ */
+function qualifySameNoteLinks(content: string, notePath: string): string {
+    const { text, restore } = protectCode(content);
+    const linkPath = notePath.replace(/\.md$/, '');
+    return restore(text.replace(/(?<!!)\[\[\s*([#^])/g, (_match, mark: string) =>
+        `[[${linkPath}#${mark === '^' ? '^' : ''}`));
+}
+
+/**
+ * Expands embeds recursively, up to the maximum depth.
+ * @param vault Where embedded notes are read from
+ * @param content The markdown content to process
+ * @param sourcePath Path of the note the content comes from, used for link resolution
+ * @param options Depth limit and attachment handling
+ * @param depth Current nesting level (0 for the note being exported)
+ * @param embedStack Embeds currently being expanded, used to detect cycles
+ * @returns Content with embeds replaced by the referenced text
+ */
+export async function resolveEmbeds(vault: VaultAccess, content: string, sourcePath: string, options: EmbedOptions, depth = 0, embedStack: string[] = []): Promise<string> {
+    // Embeds below the depth limit are left untouched
+    if (depth >= options.maxEmbedDepth) {
+        return content;
+    }
+
+    // The note being exported counts as an ancestor of everything it embeds
+    if (depth === 0 && sourcePath) {
+        embedStack = [sourcePath];
+    }
+
+    // Embeds inside code and math are documentation, not transclusions
+    const { text, restore } = protectCode(content);
+    content = text;
+
+    // Pattern to match ![[file]], ![[file#heading]], or ![[file#^blockId]]
+    const embedPattern = /!\[\[(.*?)(?:#([^\]]+))?\]\]/g;
+    const matches = Array.from(content.matchAll(embedPattern));
+
+    // Process in reverse order to avoid position shifts
+    for (let i = matches.length - 1; i >= 0; i--) {
+        const match = matches[i];
+        const fullMatch = match[0];
+        // Drop display text and sizes like ![[image.png|300]]
+        const filePath = match[1].split('|')[0].trim();
+        const hashPart = match[2] ? match[2].split('|')[0].trim() : "";
+
+        // Get the target file
+        const targetFile = vault.resolveLink(filePath, sourcePath);
+        if (!targetFile) {
+            content = content.slice(0, match.index !== undefined ? match.index : 0) +
+                      `[File not found: ${filePath}]` +
+                      content.slice(match.index !== undefined ? match.index + fullMatch.length : 0);
+            continue;
+        }
+
+        // Attachments can't be read as text
+        if (targetFile.extension !== 'md') {
+            const attachment = options.resolveAttachment ? await options.resolveAttachment(targetFile, fullMatch) : fullMatch;
+            content = content.slice(0, match.index !== undefined ? match.index : 0) +
+                      attachment +
+                      content.slice(match.index !== undefined ? match.index + fullMatch.length : 0);
+            continue;
+        }
+
+        // Skip embeds that would expand one of their own ancestors; headings match like they do in links
+        const keyPart = hashPart.startsWith('^') ? hashPart : hashPart.split('#').map(normalizeHeading).filter(part => part).join('#');
+        const embedKey = keyPart ? `${targetFile.path}#${keyPart}` : targetFile.path;
+        if (embedStack.includes(embedKey)) {
+            content = content.slice(0, match.index !== undefined ? match.index : 0) +
+                      `[Cyclic embed skipped: ${filePath}${hashPart ? '#' + hashPart : ''}]` +
+                      content.slice(match.index !== undefined ? match.index + fullMatch.length : 0);
+            continue;
+        }
+
+        // Get file content
+        const fileContent = await vault.read(targetFile.path);
+        const fileCache = vault.getFileCache(targetFile.path);
+
+        let replacement: string | null = null;
+
+        // Determine if it's a block reference
+        if (hashPart.startsWith("^")) {
+            // It's a block reference
+            const blockId = hashPart.slice(1);
+
+            // Whole paragraphs, list items with their children, and blocks above a standalone ID
+            replacement = resolveBlock(fileContent, blockId, fileCache, options.removeBlockIds);
+        } else if (hashPart) {
+            // It's a heading reference
+            const headingText = hashPart;
+            replacement = getHeadingContent(fileContent, headingText, fileCache);
+            if (replacement !== null) {
+                replacement = adjustSectionHeading(replacement, options.headingLine ?? 'keep', getHeadingLevelAt(content, match.index ?? 0));
+            }
+        } else {
+            // It's a full file embed
+            replacement = fileContent;
+        }
+
+        // Expand any embeds inside the embedded content
+        if (replacement) {
+            replacement = qualifySameNoteLinks(replacement, targetFile.path);
+            replacement = await resolveEmbeds(vault, replacement, targetFile.path, options, depth + 1, [...embedStack, embedKey]);
+        }
+
+        // Replace the embed with the content or remove it if not found
+        if (replacement) {
+            // Check if the embed is on its own line
+            const beforeEmbed = (match.index !== undefined && match.index > 0) ? content[match.index - 1] : '';
+            const afterEmbed = (match.index !== undefined && match.index + fullMatch.length < content.length) ?
+                content[match.index + fullMatch.length] : '';
+
+            if (options.shiftHeadings) {
+                replacement = fitHeadings(replacement, getHeadingLevelAt(content, match.index ?? 0));
+            }
+
+            if (options.formatSource) {
+                replacement = addSourceMarker(replacement, targetFile.path, hashPart);
+            }
+
+            // Only embeds on a line of their own can become blockquotes
+            if (options.wrapper && (beforeEmbed === '\n' || beforeEmbed === '') && (afterEmbed === '\n' || afterEmbed === '')) {
+                replacement = wrapEmbed(replacement, options.wrapper, `${filePath}${hashPart ? '#' + hashPart : ''}`);
+            }
+
+            // Preserve newlines before and after if they exist
+            const preserveLeadingNewline = beforeEmbed === '\n' ? '\n' : '';
+            const preserveTrailingNewline = afterEmbed === '\n' ? '\n' : '';
+
+            content = content.slice(0, match.index !== undefined ? match.index : 0) +
+                      preserveLeadingNewline + replacement + preserveTrailingNewline +
+                      content.slice(match.index !== undefined ? match.index + fullMatch.length : 0);
+        } else {
+            content = content.slice(0, match.index !== undefined ? match.index : 0) +
+                      `[Content not found: ${filePath}${hashPart ? '#' + hashPart : ''}]` +
+                      content.slice(match.index !== undefined ? match.index + fullMatch.length : 0);
+        }
+    }
+
+    content = restore(content);
+
+    // Footnotes are numbered once, after every embed in the note has been resolved
+    if (depth === 0 && options.formatSource) {
+        content = numberSources(content, options.formatSource);
+    }
+
+    return content;
+}
@@ -1,24 +1,221 @@
-import { App, Plugin, PluginSettingTab, Setting, MarkdownView, Notice, Modal, TFile } from 'obsidian';
+import { App, Editor, Plugin, PluginSettingTab, Setting, MarkdownView, Notice, Modal, FuzzySuggestModal, TFile, TFolder, TAbstractFile, Vault, Component, MarkdownRenderer, arrayBufferToBase64, getAllTags, getLinkpath, moment, normalizePath, parseYaml, Platform, stringifyYaml } from 'obsidian';
+import { canvasToMarkdown, parseCanvas } from './canvas';
+import { EmbedWrapper, HeadingLineMode, VaultAccess, cleanAllBlockIds, preserveNestedLists, resolveEmbeds } from './exporter';
+import { SAVE_FORMAT_EXTENSIONS, SaveFormat, TemplateValues, appendExport, applyPathTemplate, buildHtmlDocument, findFreePath, markdownToPlainText, sanitizeFileName, sanitizeVaultPath } from './saving';
+import { getListAt, getSectionAt } from './scopes';
+import { CalloutFormat, ContentStats, FrontmatterFormat, FrontmatterKeep, HighlightFormat, InlineFieldFormat, LinkFormat, TagFormat, getContentStats, normalizeSyntax, processFrontmatter, relativePath, removeEmbeds, rewriteWikilinks, toLinkAnchor, truncateToTokens, wrapDocument } from './transforms';
+
+// Which part of the active note gets exported
+type ExportScope = 'note' | 'selection' | 'section' | 'list';
+
+/**
+ * Information about the content passed to each export step
+ */
+export interface ExportContext {
+    // Path of the note the content comes from, empty if unknown
+    sourcePath: string;
+    file: TFile | null;
+    // Whether the content starts at the top of the note, where its frontmatter is;
+    // false for selections, sections and lists from further down
+    fromNoteStart: boolean;
+    // Profile whose options apply to this export
+    profile: ExportProfile;
+}
+
+/**
+ * A named transform in the export pipeline.
+ * Other plugins can add their own with registerTransformStep.
+ */
+export interface TransformStep {
+    id: string;
+    name: string;
+    description?: string;
+    // Whether the step runs before the user has configured it
+    enabledByDefault?: boolean;
+    transform: (content: string, context: ExportContext) => string | Promise<string>;
+}
+
+// How embeds of non-Markdown files (images, PDFs, audio) are exported
+type AttachmentEmbedMode = 'keep' | 'link' | 'placeholder' | 'base64';
+
+// File extensions that can be inlined as data URIs, with their MIME types
+const IMAGE_MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    bmp: 'image/bmp',
+    avif: 'image/avif',
+    svg: 'image/svg+xml'
+};
+
+// Where a batch export writes its output
+type BatchOutput = 'single-file' | 'clipboard' | 'folder';
+
+interface BatchExportOptions {
+    output: BatchOutput;
+    destination: string; // File path for 'single-file', folder path for 'folder'
+}
+
+// Which links the context bundle follows, and how it orders the notes it collects
+type ContextLinkDirection = 'outgoing' | 'backlinks' | 'both';
+type ContextOrder = 'distance' | 'alphabetical' | 'modified';
+
+// What to do when copied content is over the token budget
+type BudgetChoice = 'truncate' | 'drop-embeds' | 'cancel';
+
+// Where the footnotes of attributed embeds point
+type AttributionLinks = 'path' | 'obsidian-uri' | 'base-url';
+
+// What to do when the file being saved already exists
+type ConflictStrategy = 'overwrite' | 'suffix' | 'timestamp' | 'append';
+
+// Saved order and enabled state of a pipeline step
+interface PipelineStepSetting {
+    id: string;
+    enabled: boolean;
+}
+
+/**
+ * A named set of export options. Each profile gets its own copy and save commands.
+ */
+export interface ExportProfile {
+    id: string;
+    name: string;
+    pipeline: PipelineStepSetting[];
+    maxEmbedDepth: number; // How many levels of nested embeds to expand
+    embedHeadingLine: HeadingLineMode; // Heading line of embedded heading sections
+    shiftEmbeddedHeadings: boolean; // Fit embedded headings below the heading the embed is under
+    embedWrapper: EmbedWrapper;
+    attributeEmbeds: boolean; // Footnote every embed and list the sources at the end
+    attributionLinks: AttributionLinks;
+    frontmatterKeep: FrontmatterKeep;
+    frontmatterKeys: string[]; // Keys for the 'include' and 'exclude' modes
+    frontmatterFormat: FrontmatterFormat;
+    dropObsidianFrontmatter: boolean; // Drop keys like aliases and cssclasses even when keeping the rest
+    // Syntax normalization
+    stripComments: boolean; // Remove %% comments %%
+    highlightFormat: HighlightFormat; // ==highlights==
+    calloutFormat: CalloutFormat; // > [!note] callouts
+    tagFormat: TagFormat; // Inline #tags
+    inlineFieldFormat: InlineFieldFormat; // Dataview key:: value fields
+    attachmentEmbeds: AttachmentEmbedMode;
+    linkFormat: LinkFormat;
+    linkBaseUrl: string; // Base URL of the published vault, used by the 'base-url' link format
+    copyAsHtml: boolean; // Also put rendered HTML on the clipboard
+    tokenBudget: number; // Approximate token limit for copied content, 0 for no limit
+    saveFormat: SaveFormat; // Format suggested when saving
+    fileNamePrefix: string;
+    defaultSaveLocation: string;
+    saveOutsideVault: boolean; // Desktop only: write to externalSaveDirectory instead of the vault
+    externalSaveDirectory: string; // Absolute folder path, may contain template tokens
+    conflictStrategy: ConflictStrategy;
+    confirmConflicts: boolean; // Ask before applying the conflict strategy
+}
+
+const DEFAULT_PROFILE: ExportProfile = {
+    id: 'default',
+    name: 'Default',
+    pipeline: [
+        { id: 'remove-metadata', enabled: true },
+        { id: 'remove-block-ids', enabled: true },
+        { id: 'resolve-embeds', enabled: true },
+        { id: 'normalize-syntax', enabled: false },
+        { id: 'rewrite-links', enabled: false },
+        { id: 'preserve-nested-lists', enabled: true }
+    ],
+    maxEmbedDepth: 5,
+    embedHeadingLine: 'keep',
+    shiftEmbeddedHeadings: false,
+    embedWrapper: 'none',
+    attributeEmbeds: false,
+    attributionLinks: 'path',
+    frontmatterKeep: 'none',
+    frontmatterKeys: [],
+    frontmatterFormat: 'yaml',
+    dropObsidianFrontmatter: true,
+    stripComments: true,
+    highlightFormat: 'mark',
+    calloutFormat: 'label',
+    tagFormat: 'keep',
+    inlineFieldFormat: 'text',
+    attachmentEmbeds: 'keep',
+    linkFormat: 'text',
+    linkBaseUrl: "",
+    copyAsHtml: false,
+    tokenBudget: 0,
+    saveFormat: 'markdown',
+    fileNamePrefix: "(Plain) ",
+    defaultSaveLocation: "", // Empty means user will be prompted
+    saveOutsideVault: false,
+    externalSaveDirectory: "",
+    conflictStrategy: 'overwrite',
+    confirmConflicts: true
+}
+
+// How long to wait after the last edit before regenerating linked exports, in milliseconds
+const LINKED_EXPORT_DELAY = 2000;
+
+// A saved export that is regenerated when its source note or an embedded note changes
+interface LinkedExport {
+    exportPath: string;
+    sourcePath: string;
+    profileId: string;
+    format: SaveFormat;
+    dependencies: string[]; // Files transcluded into the export when it was last generated
+}
 
 interface EditorToClipboardSettings {
-    removeMetadata: boolean;
-    removeBlockIds: boolean;
+    profiles: ExportProfile[];
+    defaultProfileId: string; // Profile used by the buttons and the main commands
     // Combined position settings
     copyButtonPosition: 'ribbon' | 'top-of-note' | 'hidden' | 'floating-left-top' | 'floating-left-middle' | 'floating-left-bottom' | 'floating-right-top' | 'floating-right-middle' | 'floating-right-bottom';
     saveButtonPosition: 'ribbon' | 'top-of-note' | 'hidden' | 'floating-left-top' | 'floating-left-middle' | 'floating-left-bottom' | 'floating-right-top' | 'floating-right-middle' | 'floating-right-bottom';
-    defaultSaveLocation: string;
-    fileNamePrefix: string;
+    // What the buttons export
+    copyButtonScope: ExportScope;
+    saveButtonScope: ExportScope;
     openNewFile: boolean; // New setting to control auto-opening files
+    showStatsInStatusBar: boolean; // Show the size of the last copy in the status bar
+    // Copy with context
+    contextHops: number; // How many links away from the active note to go
+    contextLinkDirection: ContextLinkDirection;
+    contextOrder: ContextOrder;
+    contextSkipEmbedded: boolean; // Leave out notes already embedded in full by another bundled note
+    linkedExports: LinkedExport[];
 }
 
 const DEFAULT_SETTINGS: EditorToClipboardSettings = {
-    removeMetadata: true,
-    removeBlockIds: true, // Default to true as requested
+    profiles: [DEFAULT_PROFILE],
+    defaultProfileId: DEFAULT_PROFILE.id,
     copyButtonPosition: 'ribbon', // Default to ribbon
     saveButtonPosition: 'ribbon', // Default to ribbon
-    defaultSaveLocation: "", // Empty means user will be prompted
-    fileNamePrefix: "(Plain) ",
-    openNewFile: true // Default to true for better user experience
+    copyButtonScope: 'note',
+    saveButtonScope: 'note',
+    openNewFile: true, // Default to true for better user experience
+    showStatsInStatusBar: false,
+    contextHops: 1,
+    contextLinkDirection: 'outgoing',
+    contextOrder: 'distance',
+    contextSkipEmbedded: true,
+    linkedExports: []
+}
+
+// Options older versions stored at the top level of the settings, now part of each profile
+const LEGACY_SETTING_KEYS = ['pipeline', 'removeMetadata', 'removeBlockIds', 'maxEmbedDepth', 'fileNamePrefix', 'defaultSaveLocation'];
+
+/**
+ * Deep copies a profile so edits don't leak into DEFAULT_PROFILE or other profiles
+ */
+function cloneProfile(profile: ExportProfile): ExportProfile {
+    return JSON.parse(JSON.stringify(profile));
+}
+
+/**
+ * Formats the current date and time with a moment.js format
+ */
+function formatNow(format: string): string {
+    return moment().format(format);
 }
 
 export default class EditorToClipboardPlugin extends Plugin {
@@ -30,11 +227,29 @@ export default class EditorToClipboardPlugin extends Plugin {
     private leafChangeEvent: any = null; // Track the event reference
     floatingCopyContainer: HTMLElement | null = null;
     floatingSaveContainer: HTMLElement | null = null;
+    private transformSteps: Map<string, TransformStep> = new Map();
+    private profileCommandIds: string[] = []; // Commands registered for export profiles
+    statusBarEl: HTMLElement | null = null;
+    private linkedExportTimers: Map<string, number> = new Map(); // Pending regenerations by export path
+    // Lets the exporter read notes through Obsidian's vault and metadata cache
+    vaultAccess: VaultAccess = {
+        read: async (path) => {
+            const file = this.getFileByPath(path);
+            if (!file) {
+                throw new Error(`File not found: ${path}`);
+            }
+            return await this.app.vault.read(file);
+        },
+        resolveLink: (linkpath, sourcePath) => this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath),
+        getFileCache: (path) => this.app.metadataCache.getCache(path)
+    };
 
     async onload() {
         await this.loadSettings();
         console.log('Loading Editor to Clipboard Plugin');
 
+        this.registerBuiltInSteps();
+
         // Command with a hotkey (Cmd/Ctrl+Shift+C)
         this.addCommand({
             id: 'copy-active-editor-content',
@@ -65,8 +280,149 @@ export default class EditorToClipboardPlugin extends Plugin {
             ]
         });
 
+        // Commands that export only part of the active note
+        const scopedCommands: { scope: ExportScope; label: string }[] = [
+            { scope: 'selection', label: 'current selection' },
+            { scope: 'section', label: 'heading section under the cursor' },
+            { scope: 'list', label: 'list under the cursor' }
+        ];
+
+        for (const { scope, label } of scopedCommands) {
+            this.addCommand({
+                id: `copy-${scope}-content`,
+                name: `Copy ${label} to clipboard`,
+                callback: () => {
+                    this.OneClickClipboard(scope);
+                }
+            });
+
+            this.addCommand({
+                id: `save-${scope}-content`,
+                name: `Save ${label} to a file`,
+                callback: () => {
+                    this.saveToFile(scope);
+                }
+            });
+        }
+
+        this.registerProfileCommands();
+
+        // Exports that are kept up to date with their source note
+        this.addCommand({
+            id: 'save-linked-export',
+            name: 'Save active note as a linked export (kept up to date)',
+            callback: () => {
+                this.saveToFile('note', this.getDefaultProfile(), true);
+            }
+        });
+
+        this.addCommand({
+            id: 'manage-linked-exports',
+            name: 'Manage linked exports',
+            callback: () => {
+                new LinkedExportsModal(this.app, this).open();
+            }
+        });
+
+        this.registerLinkedExportEvents();
+
+        // Active note plus the notes around it, for pasting into an LLM
+        this.addCommand({
+            id: 'copy-with-context',
+            name: 'Copy active note with linked notes (context bundle)',
+            callback: () => {
+                this.copyWithContext();
+            }
+        });
+
+        // Every open note at once
+        this.addCommand({
+            id: 'copy-all-open-notes',
+            name: 'Copy all open notes to clipboard',
+            callback: () => {
+                this.copyAllOpenNotes();
+            }
+        });
+
+        // Batch export of every note with a tag
+        this.addCommand({
+            id: 'export-notes-with-tag',
+            name: 'Export all notes with a tag',
+            callback: () => {
+                new TagSuggestModal(this.app, (tag) => {
+                    this.exportTag(tag);
+                }).open();
+            }
+        });
+
+        // Batch export of a folder from the file explorer, and single notes from
+        // the file explorer and tab headers, which use the same menu
+        this.registerEvent(
+            this.app.workspace.on('file-menu', (menu, file) => {
+                if (file instanceof TFolder) {
+                    menu.addItem(item => item
+                        .setTitle('Export folder with Editor to Clipboard')
+                        .setIcon('folder-output')
+                        .onClick(() => {
+                            this.exportFolder(file);
+                        }));
+                    return;
+                }
+
+                if (!(file instanceof TFile) || (file.extension !== 'md' && file.extension !== 'canvas')) return;
+
+                menu.addItem(item => item
+                    .setTitle('Copy note with Editor to Clipboard')
+                    .setIcon('clipboard-copy')
+                    .onClick(async () => {
+                        const content = await this.readExportSource(file);
+                        if (content !== null) {
+                            await this.copyContent(content, file, this.getDefaultProfile());
+                        }
+                    }));
+
+                menu.addItem(item => item
+                    .setTitle('Save note with Editor to Clipboard')
+                    .setIcon('save')
+                    .onClick(async () => {
+                        const content = await this.readExportSource(file);
+                        if (content !== null) {
+                            await this.saveContent(content, file, this.getDefaultProfile());
+                        }
+                    }));
+            })
+        );
+
+        // Copy the selection or the embed under the cursor from the editor's context menu
+        this.registerEvent(
+            this.app.workspace.on('editor-menu', (menu, editor, info) => {
+                const file = info.file;
+
+                if (editor.somethingSelected()) {
+                    menu.addItem(item => item
+                        .setTitle('Copy selection with Editor to Clipboard')
+                        .setIcon('clipboard-copy')
+                        .onClick(async () => {
+                            const from = editor.getCursor('from');
+                            await this.copyContent(editor.getSelection(), file, this.getDefaultProfile(), from.line === 0 && from.ch === 0);
+                        }));
+                }
+
+                const embed = this.getEmbedAtCursor(editor);
+                if (embed) {
+                    menu.addItem(item => item
+                        .setTitle('Copy embedded content with Editor to Clipboard')
+                        .setIcon('clipboard-copy')
+                        .onClick(async () => {
+                            await this.copyContent(embed, file, this.getDefaultProfile(), false);
+                        }));
+                }
+            })
+        );
+
         // Add buttons based on settings
         this.updateButtonLocations();
+        this.updateStatusBar();
 
         // Add settings tab
         this.addSettingTab(new EditorToClipboardSettingTab(this.app, this));
@@ -247,7 +603,7 @@ export default class EditorToClipboardPlugin extends Plugin {
             });
 
             buttonEl.addEventListener('click', () => {
-                this.OneClickClipboard();
+                this.OneClickClipboard(this.settings.copyButtonScope);
                 // Visual feedback on click
                 buttonEl.classList.add('is-active');
                 setTimeout(() => {
@@ -268,7 +624,7 @@ export default class EditorToClipboardPlugin extends Plugin {
             });
 
             buttonEl.addEventListener('click', () => {
-                this.saveToFile();
+                this.saveToFile(this.settings.saveButtonScope);
             });
 
             this.saveButtonEl = buttonEl;
@@ -300,7 +656,7 @@ export default class EditorToClipboardPlugin extends Plugin {
                 type === 'copy' ? 'clipboard' : 'save',
                 type === 'copy' ? 'Copy Markdown Content' : 'Save Markdown Content to File',
                 () => {
-                    type === 'copy' ? this.OneClickClipboard() : this.saveToFile();
+                    type === 'copy' ? this.OneClickClipboard(this.settings.copyButtonScope) : this.saveToFile(this.settings.saveButtonScope);
                 }
             );
 
@@ -326,7 +682,7 @@ export default class EditorToClipboardPlugin extends Plugin {
             });
 
             buttonEl.addEventListener('click', () => {
-                type === 'copy' ? this.OneClickClipboard() : this.saveToFile();
+                type === 'copy' ? this.OneClickClipboard(this.settings.copyButtonScope) : this.saveToFile(this.settings.saveButtonScope);
 
                 // Visual feedback for copy button
                 if (type === 'copy') {
@@ -347,446 +703,1328 @@ export default class EditorToClipboardPlugin extends Plugin {
     }
 
     /**
-     * Copies the raw markdown content from the editor.
-     * (Optionally, you can add logic here to resolve block references by parsing the markdown and fetching the referenced text.)
+     * Returns the profile used by the buttons and the main commands
      */
-    async OneClickClipboard() {
-        const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-        if (!activeView) {
-            new Notice("No active markdown view found.");
-            return;
-        }
-        const editor = activeView.editor;
-        let content = editor.getValue();
+    getDefaultProfile(): ExportProfile {
+        return this.settings.profiles.find(profile => profile.id === this.settings.defaultProfileId)
+            ?? this.settings.profiles[0];
+    }
 
-        // Remove metadata if the setting is enabled
-        if (this.settings.removeMetadata) {
-            content = content.replace(/^---\n[\s\S]*?\n---\n/, '');
+    /**
+     * Registers a copy and a save command for every profile so each can get its own hotkey.
+     * Call again after profiles are added, renamed or deleted.
+     */
+    registerProfileCommands() {
+        for (const id of this.profileCommandIds) {
+            this.removeCommand(id);
         }
+        this.profileCommandIds = [];
+
+        for (const profile of this.settings.profiles) {
+            this.addCommand({
+                id: `copy-profile-${profile.id}`,
+                name: `Copy active editor content to clipboard (${profile.name})`,
+                callback: () => {
+                    this.OneClickClipboard('note', this.getProfile(profile.id));
+                }
+            });
 
-        // Remove block IDs if the setting is enabled
-        if (this.settings.removeBlockIds) {
-            content = this.cleanAllBlockIds(content);
-        }
+            this.addCommand({
+                id: `save-profile-${profile.id}`,
+                name: `Save active editor content to a file (${profile.name})`,
+                callback: () => {
+                    this.saveToFile('note', this.getProfile(profile.id));
+                }
+            });
 
-        // Process block references
-        content = await this.resolveBlockReferences(content);
+            this.profileCommandIds.push(`copy-profile-${profile.id}`, `save-profile-${profile.id}`);
+        }
+    }
 
-        // Ensure the list structure with indentation is preserved
-        content = this.preserveNestedLists(content);
+    /**
+     * Looks up a profile by id, falling back to the default profile
+     */
+    getProfile(id: string): ExportProfile {
+        return this.settings.profiles.find(profile => profile.id === id) ?? this.getDefaultProfile();
+    }
 
-        await navigator.clipboard.writeText(content);
-        new Notice("Copied markdown content to clipboard!");
+    /**
+     * Creates a new profile, optionally as a copy of an existing one
+     */
+    async createProfile(name: string, template?: ExportProfile): Promise<ExportProfile> {
+        const profile = cloneProfile(template ?? DEFAULT_PROFILE);
+        profile.id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+        profile.name = name;
+
+        this.settings.profiles.push(profile);
+        await this.saveSettings();
+        this.registerProfileCommands();
+        return profile;
     }
 
     /**
-     * Saves the processed markdown content to a file
+     * Deletes a profile. The last remaining profile can't be deleted.
      */
-    async saveToFile() {
-        const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-        if (!activeView) {
-            new Notice("No active markdown view found.");
+    async deleteProfile(id: string) {
+        if (this.settings.profiles.length <= 1) {
+            new Notice("At least one export profile is required.");
             return;
         }
-        const editor = activeView.editor;
-        let content = editor.getValue();
-
-        // Remove metadata if the setting is enabled
-        if (this.settings.removeMetadata) {
-            content = content.replace(/^---\n[\s\S]*?\n---\n/, '');
-        }
 
-        // Remove block IDs if the setting is enabled
-        if (this.settings.removeBlockIds) {
-            content = this.cleanAllBlockIds(content);
+        this.settings.profiles = this.settings.profiles.filter(profile => profile.id !== id);
+        if (this.settings.defaultProfileId === id) {
+            this.settings.defaultProfileId = this.settings.profiles[0].id;
         }
+        await this.saveSettings();
+        this.registerProfileCommands();
+    }
 
-        // Process block references
-        content = await this.resolveBlockReferences(content);
+    /**
+     * Registers the transform steps that ship with the plugin
+     */
+    private registerBuiltInSteps() {
+        this.registerTransformStep({
+            id: 'remove-metadata',
+            name: 'Remove Metadata',
+            description: 'Remove metadata information (marked by three dashes at the top of the file), or keep only some of it. This includes any front matter such as dates, tags, etc.',
+            // A "---" rule further down the note is not frontmatter
+            transform: (content, context) => context.fromNoteStart ? processFrontmatter(
+                content,
+                context.profile,
+                { parse: parseYaml, stringify: stringifyYaml },
+                context.file ? this.app.metadataCache.getFileCache(context.file)?.frontmatter : undefined
+            ) : content
+        });
 
-        // Ensure the list structure with indentation is preserved
-        content = this.preserveNestedLists(content);
+        this.registerTransformStep({
+            id: 'remove-block-ids',
+            name: 'Remove Block IDs',
+            description: 'Remove block reference IDs (^blockId) from the exported content.',
+            transform: (content) => cleanAllBlockIds(content)
+        });
 
-        // Get current file name as a suggestion
-        const currentFile = activeView.file;
-        const fileName = currentFile ? currentFile.name.replace('.md', '') : 'exported-content';
-        // Apply prefix to file name
-        let suggestedName = `${this.settings.fileNamePrefix}${fileName}.md`;
+        this.registerTransformStep({
+            id: 'normalize-syntax',
+            name: 'Normalize Obsidian Syntax',
+            description: 'Strip %% comments %% and convert highlights, callouts, inline tags and Dataview fields into Markdown other apps understand. Code blocks are left untouched.',
+            enabledByDefault: false,
+            transform: (content, context) => normalizeSyntax(content, context.profile)
+        });
 
-        // If default save location is set, use it
-        let targetPath = this.settings.defaultSaveLocation;
+        this.registerTransformStep({
+            id: 'resolve-embeds',
+            name: 'Resolve Embeds',
+            description: 'Replace embeds (![[note]], ![[note#heading]], ![[note#^blockId]]) with the text they point to.',
+            transform: (content, context) => this.resolveBlockReferences(content, context)
+        });
 
-        // If no default path or it's empty, prompt the user
-        if (!targetPath) {
-            const input = document.createElement('input');
-            input.type = 'text';
-            input.value = suggestedName;
+        this.registerTransformStep({
+            id: 'rewrite-links',
+            name: 'Rewrite Links',
+            description: 'Convert [[wikilinks]] into plain text, Markdown links or URLs that work outside Obsidian.',
+            enabledByDefault: false,
+            transform: (content, context) => rewriteWikilinks(this.vaultAccess, content, context.sourcePath, {
+                linkFormat: context.profile.linkFormat,
+                linkBaseUrl: context.profile.linkBaseUrl,
+                vaultName: this.app.vault.getName()
+            })
+        });
 
-            // Create a promise to handle the modal response
-            const savePathPromise = new Promise<string>((resolve) => {
-                const modal = new SaveFileModal(this.app, input, (result) => {
-                    resolve(result);
-                });
-                modal.open();
-            });
+        this.registerTransformStep({
+            id: 'preserve-nested-lists',
+            name: 'Preserve Nested Lists',
+            description: 'Keep the indentation of nested list items.',
+            transform: (content) => preserveNestedLists(content)
+        });
+    }
 
-            targetPath = await savePathPromise;
+    /**
+     * Adds a step to the export pipeline. Other plugins can call this to add
+     * their own transforms, e.g. redaction or link rewriting.
+     * Steps the user has not placed yet run after the configured ones.
+     */
+    registerTransformStep(step: TransformStep) {
+        if (this.transformSteps.has(step.id)) {
+            console.warn(`Transform step "${step.id}" is already registered, replacing it`);
+        }
+        this.transformSteps.set(step.id, step);
+    }
 
-            // If user cancelled, abort
-            if (!targetPath) {
-                return;
-            }
+    /**
+     * Removes a step from the export pipeline. Its saved order and enabled state are kept.
+     */
+    unregisterTransformStep(id: string) {
+        this.transformSteps.delete(id);
+    }
 
-            // Ensure .md extension
-            if (!targetPath.endsWith('.md')) {
-                targetPath += '.md';
+    /**
+     * Returns the registered steps in the profile's pipeline order with their enabled state
+     */
+    getPipelineSteps(profile: ExportProfile): { step: TransformStep; enabled: boolean }[] {
+        const result: { step: TransformStep; enabled: boolean }[] = [];
+        const placed = new Set<string>();
+
+        for (const entry of profile.pipeline) {
+            const step = this.transformSteps.get(entry.id);
+            if (step && !placed.has(entry.id)) {
+                result.push({ step, enabled: entry.enabled });
+                placed.add(entry.id);
             }
         }
 
-        try {
-            // Check if the file already exists
-            const existingFile = this.app.vault.getAbstractFileByPath(targetPath);
-
-            if (existingFile instanceof TFile) {
-                // File exists, ask for confirmation
-                const confirmPromise = new Promise<boolean>((resolve) => {
-                    const modal = new ConfirmationModal(
-                        this.app,
-                        `The file "${targetPath}" already exists. Do you want to overwrite it?`,
-                        (confirmed) => {
-                            resolve(confirmed);
-                        }
-                    );
-                    modal.open();
-                });
-
-                const shouldOverwrite = await confirmPromise;
-                if (!shouldOverwrite) {
-                    // User declined to overwrite, abort
-                    return;
-                }
+        // Newly registered steps go last
+        this.transformSteps.forEach((step, id) => {
+            if (!placed.has(id)) {
+                result.push({ step, enabled: step.enabledByDefault ?? true });
             }
+        });
 
-            // Create or overwrite the file
-            await this.app.vault.create(targetPath, content);
-            new Notice(`Content saved to ${targetPath}`);
-
-            // Open the saved file if the setting is enabled
-            if (this.settings.openNewFile) {
-                const savedFile = this.getFileByPath(targetPath);
-                if (savedFile) {
-                    // Open the file in a new leaf (tab)
-                    await this.app.workspace.getLeaf('tab').openFile(savedFile);
-                }
-            }
-        } catch (error) {
-            console.error('Failed to save file:', error);
-            new Notice('Failed to save file. Check console for details.');
-        }
+        return result;
     }
 
-    async resolveBlockReferences(content: string): Promise<string> {
-        // Pattern to match ![[file]], ![[file#heading]], or ![[file#^blockId]]
-        const embedPattern = /\!\[\[(.*?)(?:#([^\]]+))?\]\]/g;
-        let matches = Array.from(content.matchAll(embedPattern));
-
-        // Process in reverse order to avoid position shifts
-        for (let i = matches.length - 1; i >= 0; i--) {
-            const match = matches[i];
-            const fullMatch = match[0];
-            const filePath = match[1].trim();
-            const hashPart = match[2] ? match[2].trim() : "";
-
-            console.log(`Processing embed: file="${filePath}", hash="${hashPart}"`);
+    /**
+     * Saves a new order and enabled state for the registered steps.
+     * Entries of steps that are not registered right now are kept at the end.
+     */
+    async setPipelineSteps(profile: ExportProfile, steps: { step: TransformStep; enabled: boolean }[]) {
+        const stepIds = new Set(steps.map(({ step }) => step.id));
+        profile.pipeline = [
+            ...steps.map(({ step, enabled }) => ({ id: step.id, enabled })),
+            ...profile.pipeline.filter(entry => !stepIds.has(entry.id))
+        ];
+        await this.saveSettings();
+    }
 
-            // Get the target file
-            const targetFile = this.app.metadataCache.getFirstLinkpathDest(filePath, "");
-            if (!targetFile) {
-                console.log(`File not found: "${filePath}"`);
-                content = content.slice(0, match.index !== undefined ? match.index : 0) +
-                          `[File not found: ${filePath}]` +
-                          content.slice(match.index !== undefined ? match.index + fullMatch.length : 0);
-                continue;
+    /**
+     * Runs the content through every enabled pipeline step in order.
+     * A failing step is skipped so one broken transform doesn't block the export.
+     */
+    async runPipeline(content: string, context: ExportContext): Promise<string> {
+        for (const { step, enabled } of this.getPipelineSteps(context.profile)) {
+            if (!enabled) continue;
+
+            try {
+                content = await step.transform(content, context);
+            } catch (error) {
+                console.error(`Transform step "${step.id}" failed:`, error);
+                new Notice(`Export step "${step.name}" failed. Check console for details.`);
             }
+        }
 
-            // Get file content
-            const fileContent = await this.app.vault.read(targetFile);
-            const fileCache = this.app.metadataCache.getFileCache(targetFile);
-
-            let replacement: string | null = null;
-
-            // Determine if it's a block reference
-            if (hashPart.startsWith("^")) {
-                // It's a block reference
-                const blockId = hashPart.slice(1);
-                console.log(`Found block reference: ^${blockId} in file ${targetFile.path}`);
-
-                // Try to find the block in the cache
-                if (fileCache && fileCache.blocks && fileCache.blocks[blockId]) {
-                    console.log(`Block found in cache: ${blockId}`);
-                    const blockPosition = fileCache.blocks[blockId].position;
-                    const fileLines = fileContent.split('\n');
-                    replacement = fileLines[blockPosition.start.line];
-                    // Clean the block content to remove the ID
-                    replacement = this.cleanBlockContent(replacement, blockId);
-                } else {
-                    // Fallback to regex if cache doesn't have block info
-                    console.log(`Block not in cache, using regex: ^${blockId}`);
-                    const blockPattern = new RegExp(`(.*?)\\s*\\^${blockId}(?:\\s|$)`, "m");
-                    const blockMatch = blockPattern.exec(fileContent);
-                    replacement = blockMatch ? blockMatch[1].trim() : null;
-
-                    if (!replacement) {
-                        // Try more aggressive pattern match
-                        console.log(`Trying aggressive pattern match for block: ^${blockId}`);
-                        const lines = fileContent.split('\n');
-                        for (const line of lines) {
-                            if (line.includes(`^${blockId}`)) {
-                                replacement = this.cleanBlockContent(line, blockId);
-                                break;
-                            }
-                        }
-                    }
-                }
+        return content;
+    }
 
-                console.log(`Block reference ${blockId} resolved to: ${replacement}`);
-            } else if (hashPart) {
-                // It's a heading reference
-                const headingText = hashPart;
-                console.log(`Found heading reference: ${headingText} in file ${targetFile.path}`);
-
-                if (fileCache && fileCache.headings) {
-                    // Find the heading in the cache
-                    const heading = fileCache.headings.find(h =>
-                        h.heading.toLowerCase() === headingText.toLowerCase());
-
-                    if (heading) {
-                        const headingLevel = heading.level;
-                        const headingLine = heading.position.start.line;
-
-                        // Find the next heading of same or higher level
-                        const fileLines = fileContent.split('\n');
-                        let endLine = fileLines.length;
-
-                        for (let lineNum = headingLine + 1; lineNum < fileLines.length; lineNum++) {
-                            const line = fileLines[lineNum];
-                            const headingMatch = line.match(/^(#{1,6})\s/);
-                            if (headingMatch && headingMatch[1].length <= headingLevel) {
-                                endLine = lineNum;
-                                break;
-                            }
-                        }
+    /**
+     * Returns the part of the active note selected by the scope.
+     * Shows a notice and returns null when there is nothing to export.
+     */
+    getScopedContent(activeView: MarkdownView, scope: ExportScope): string | null {
+        const editor = activeView.editor;
+        if (scope === 'note') {
+            return editor.getValue();
+        }
 
-                        // Extract content between heading and next heading (include the heading itself)
-                        replacement = fileLines.slice(headingLine, endLine).join('\n').trim();
-                    }
-                }
+        if (scope === 'selection') {
+            const selection = editor.getSelection();
+            if (!selection) {
+                new Notice("Nothing is selected.");
+                return null;
+            }
+            return selection;
+        }
 
-                // Fallback to regex if cache doesn't work
-                if (!replacement) {
-                    replacement = await this.getHeadingContent(filePath, headingText);
-                }
+        // Read the structure from the editor text, which may be ahead of the metadata cache
+        const content = editor.getValue();
+        const cursorLine = editor.getCursor().line;
 
-                console.log(`Heading reference ${headingText} resolved to: ${replacement?.substring(0, 50)}...`);
-            } else {
-                // It's a full file embed
-                replacement = fileContent;
-                console.log(`Full file embed ${filePath} resolved`);
+        if (scope === 'section') {
+            const section = getSectionAt(content, cursorLine);
+            if (section === null) {
+                new Notice("No heading found above the cursor.");
             }
+            return section;
+        }
 
-            // Replace the embed with the content or remove it if not found
-            if (replacement) {
-                // Check if the embed is on its own line
-                const beforeEmbed = (match.index !== undefined && match.index > 0) ? content[match.index - 1] : '';
-                const afterEmbed = (match.index !== undefined && match.index + fullMatch.length < content.length) ?
-                    content[match.index + fullMatch.length] : '';
-
-                // Preserve newlines before and after if they exist
-                const preserveLeadingNewline = beforeEmbed === '\n' ? '\n' : '';
-                const preserveTrailingNewline = afterEmbed === '\n' ? '\n' : '';
+        const list = getListAt(content, cursorLine);
+        if (list === null) {
+            new Notice("No list found under the cursor.");
+        }
+        return list;
+    }
 
-                content = content.slice(0, match.index !== undefined ? match.index : 0) +
-                          preserveLeadingNewline + replacement + preserveTrailingNewline +
-                          content.slice(match.index !== undefined ? match.index + fullMatch.length : 0);
-            } else {
-                content = content.slice(0, match.index !== undefined ? match.index : 0) +
-                          `[Content not found: ${filePath}${hashPart ? '#' + hashPart : ''}]` +
-                          content.slice(match.index !== undefined ? match.index + fullMatch.length : 0);
+    /**
+     * Finds the ![[embed]] the cursor is in
+     * @returns The embed syntax, or null when the cursor isn't on an embed
+     */
+    getEmbedAtCursor(editor: Editor): string | null {
+        const cursor = editor.getCursor();
+        const line = editor.getLine(cursor.line);
+        const embedPattern = /!\[\[[^\]]+\]\]/g;
+
+        let match;
+        while ((match = embedPattern.exec(line)) !== null) {
+            if (cursor.ch >= match.index && cursor.ch <= match.index + match[0].length) {
+                return match[0];
             }
         }
-
-        return content;
+        return null;
     }
 
     /**
-     * Helper function to clean block content by removing block IDs
-     * @param content The block content that may contain a block ID
-     * @param blockId The specific blockId to remove (optional)
-     * @returns Cleaned content without block IDs
+     * Copies the processed markdown content from the editor.
+     * @param scope Which part of the note to copy
+     * @param profile Export options to use, defaults to the default profile
      */
-    cleanBlockContent(content: string, blockId?: string): string {
-        if (!content) return "";
+    async OneClickClipboard(scope: ExportScope = 'note', profile: ExportProfile = this.getDefaultProfile()) {
+        const source = await this.getActiveContent(scope);
+        if (!source) {
+            return;
+        }
 
-        // First try to remove the specific block ID if provided
-        if (blockId) {
-            content = content.replace(new RegExp(`\\^${blockId}\\s*$`), '');
+        await this.copyContent(source.content, source.file, profile, source.fromNoteStart);
+    }
+
+    /**
+     * Gets the content to export from the active view. Besides Markdown editors this covers
+     * notes open without an editor and canvases, which are exported as a whole.
+     * Shows a notice and returns null when there is nothing to export.
+     */
+    async getActiveContent(scope: ExportScope): Promise<{ content: string; file: TFile | null; fromNoteStart: boolean } | null> {
+        const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+        if (activeView) {
+            const content = this.getScopedContent(activeView, scope);
+            const from = activeView.editor.getCursor('from');
+            const fromNoteStart = scope === 'note' || (scope === 'selection' && from.line === 0 && from.ch === 0);
+            return content === null ? null : { content, file: activeView.file, fromNoteStart };
         }
 
-        // Also remove any other block IDs that might be present
-        content = content.replace(/\s*\^[a-zA-Z0-9]+\s*$/g, '');
+        const activeFile = this.app.workspace.getActiveFile();
+        if (activeFile && (activeFile.extension === 'md' || activeFile.extension === 'canvas')) {
+            if (scope !== 'note') {
+                new Notice("Only whole notes can be exported from this view.");
+                return null;
+            }
+            const content = await this.readExportSource(activeFile);
+            return content === null ? null : { content, file: activeFile, fromNoteStart: true };
+        }
 
-        // Trim only trailing whitespace to preserve indentation
-        return content.replace(/\s+$/, '');
+        new Notice("No active markdown view found.");
+        return null;
     }
 
     /**
-     * Clean all block IDs from content
+     * Reads a note for export; canvases are converted to Markdown.
+     * Shows a notice and returns null when a canvas can't be read.
      */
-    cleanAllBlockIds(content: string): string {
-        // Split into lines to process each line
-        const lines = content.split('\n');
-        for (let i = 0; i < lines.length; i++) {
-            // Apply block ID cleaning to each line
-            lines[i] = this.cleanBlockContent(lines[i]);
+    async readExportSource(file: TFile): Promise<string | null> {
+        const content = await this.app.vault.read(file);
+        if (file.extension !== 'canvas') {
+            return content;
         }
 
-        return lines.join('\n');
+        const data = parseCanvas(content);
+        if (!data) {
+            new Notice(`Canvas file could not be read: ${file.path}`);
+            return null;
+        }
+        return canvasToMarkdown(data);
     }
 
     /**
-     * Preserves the nested list structure in markdown content
-     * This fixes issues where indented list items lose their indentation
-     * @param content The markdown content to process
-     * @returns Processed content with preserved list structure
+     * Copies every Markdown note open in the workspace as one document, with a header per note
      */
-    preserveNestedLists(content: string): string {
-        // First, find all list items and mark their levels
-        const lines = content.split('\n');
-
-        // No processing needed for single line
-        if (lines.length <= 1) {
-            return content;
+    async copyAllOpenNotes() {
+        const profile = this.getDefaultProfile();
+        const seen = new Set<string>();
+        const sections: string[] = [];
+
+        for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+            const view = leaf.view;
+            if (!(view instanceof MarkdownView) || !view.file || seen.has(view.file.path)) continue;
+            seen.add(view.file.path);
+
+            // The editor has the latest content, even if it hasn't been saved yet
+            const content = await this.runPipeline(view.editor.getValue(), {
+                sourcePath: view.file.path,
+                file: view.file,
+                fromNoteStart: true,
+                profile
+            });
+            sections.push(`# ${view.file.path.replace(/\.md$/, '')}\n\n${content.trim()}`);
         }
 
-        // Keep track of list hierarchy
-        let currentListLevel = 0;
-        let inList = false;
-        const listLevels: number[] = new Array(lines.length).fill(0);
-        const isListItem: boolean[] = new Array(lines.length).fill(false);
-
-        // First pass: detect all list items and their levels
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-
-            // Check if this line is a list item (starts with - or * or number. followed by space)
-            const listItemMatch = line.match(/^([\s]*)(-|\*|\d+\.)\s/);
-
-            if (listItemMatch) {
-                // This is a list item
-                const indentLevel = listItemMatch[1].length;
-                isListItem[i] = true;
-
-                // Determine the list level based on indentation
-                if (!inList) {
-                    // Start of a new list
-                    inList = true;
-                    currentListLevel = 1;
-                } else if (indentLevel > 0) {
-                    // This is a nested list item
-                    currentListLevel = Math.floor(indentLevel / 2) + 1;
-                }
+        if (sections.length === 0) {
+            new Notice("No open markdown notes found.");
+            return;
+        }
 
-                listLevels[i] = currentListLevel;
+        const content = sections.join('\n\n---\n\n');
+        const stats = getContentStats(content);
+        this.updateStatusBar(stats);
+        await navigator.clipboard.writeText(content);
+        new Notice(`Copied ${sections.length} open notes to clipboard! (${this.formatContentStats(stats)})`);
+    }
 
-                // Check if the next line is a continuation of this list item
-                if (i + 1 < lines.length) {
-                    const nextLine = lines[i + 1];
-                    const nextLineMatch = nextLine.match(/^([\s]*)(-|\*|\d+\.)\s/);
+    /**
+     * Runs content through the pipeline and copies the result, keeping to the profile's token budget
+     * @param content Raw markdown to export
+     * @param file Note the content comes from, used to resolve links and embeds
+     * @param profile Export options to use
+     * @param fromNoteStart Whether the content starts at the top of the note, so its frontmatter is exported
+     */
+    async copyContent(content: string, file: TFile | null, profile: ExportProfile, fromNoteStart = true) {
+        const context: ExportContext = {
+            sourcePath: file?.path ?? "",
+            file,
+            fromNoteStart,
+            profile
+        };
+        const rawContent = content;
+        content = await this.runPipeline(content, context);
+
+        let stats = getContentStats(content);
+        if (profile.tokenBudget > 0 && stats.tokens > profile.tokenBudget) {
+            const choice = await new Promise<BudgetChoice>((resolve) => {
+                new TokenBudgetModal(this.app, stats, profile.tokenBudget, resolve).open();
+            });
 
-                    if (!nextLineMatch && nextLine.trim()) {
-                        // Next line is not a list item but has content - mark it as a continuation
-                        // Check if there's any indentation
-                        const indentMatch = nextLine.match(/^([\s]*)/);
-                        const nextLineIndent = indentMatch && indentMatch[1] !== undefined ? indentMatch[1].length : 0;
+            if (choice === 'cancel') {
+                return;
+            } else if (choice === 'drop-embeds') {
+                content = await this.runPipeline(rawContent, {
+                    ...context,
+                    profile: this.withoutEmbeds(profile)
+                });
+                // Whatever the pipeline left unresolved is dropped too
+                content = removeEmbeds(content);
 
-                        // If it's not already properly indented, record that we need to preserve its indentation
-                        if (nextLineIndent <= indentLevel) {
-                            // This is part of the current list item and needs to maintain proper indentation
-                            listLevels[i + 1] = currentListLevel;
-                        }
-                    }
+                // The note's own text may still be too long
+                if (getContentStats(content).tokens > profile.tokenBudget) {
+                    content = truncateToTokens(content, profile.tokenBudget);
+                    new Notice('Still over the token budget without embeds, so the content was truncated.');
                 }
-            } else if (inList && line.trim()) {
-                // This is not a list item but has content - could be a continuation or nested content
-                const indentMatch = line.match(/^([\s]*)/);
-                const indentLevel = indentMatch ? indentMatch[1].length : 0;
-
-                // Preserve existing indentation rather than replacing it
-                listLevels[i] = Math.max(1, Math.floor(indentLevel / 2) + 1);
-            } else if (!line.trim()) {
-                // Empty line, reset list context if we were in a list
-                inList = false;
-                currentListLevel = 0;
+            } else {
+                content = truncateToTokens(content, profile.tokenBudget);
+            }
+            stats = getContentStats(content);
+        }
+        this.updateStatusBar(stats);
+
+        if (profile.copyAsHtml) {
+            try {
+                const html = await this.renderMarkdownToHtml(content, file?.path ?? "");
+                await navigator.clipboard.write([
+                    new ClipboardItem({
+                        'text/plain': new Blob([content], { type: 'text/plain' }),
+                        'text/html': new Blob([html], { type: 'text/html' })
+                    })
+                ]);
+                new Notice(`Copied markdown and formatted content to clipboard! (${this.formatContentStats(stats)})`);
+                return;
+            } catch (error) {
+                // Fall back to plain text, e.g. where ClipboardItem isn't supported
+                console.error('Failed to copy formatted content:', error);
             }
         }
 
-        // Now we have identified all the list items and their levels
-        // No need to modify the content as we're preserving the original indentation
-        return lines.join('\n');
+        await navigator.clipboard.writeText(content);
+        new Notice(`Copied markdown content to clipboard! (${this.formatContentStats(stats)})`);
     }
 
-    // Fetch the entire file content if it's just ![[someFile]] with no # part
-    async getFullFileContent(filePath: string): Promise<string | null> {
-        const file = this.app.metadataCache.getFirstLinkpathDest(filePath, "");
-        if (!file) return null;
-        return await this.app.vault.read(file);
+    formatContentStats(stats: ContentStats): string {
+        return `${stats.characters.toLocaleString()} characters, ${stats.words.toLocaleString()} words, ~${stats.tokens.toLocaleString()} tokens`;
     }
 
-    // Capture only the specified block
-    async getBlockContent(filePath: string, blockId: string): Promise<string | null> {
-        const file = this.app.metadataCache.getFirstLinkpathDest(filePath, "");
-        if (!file) return null;
-        const fileContent = await this.app.vault.read(file);
+    /**
+     * Shows or hides the status bar item, and updates it with the size of the last copy
+     */
+    updateStatusBar(stats?: ContentStats) {
+        if (!this.settings.showStatsInStatusBar) {
+            this.statusBarEl?.remove();
+            this.statusBarEl = null;
+            return;
+        }
 
-        // In Obsidian, block IDs are typically at the end of a line like: "Some text ^blockId"
-        // Match any line that contains the block ID
-        const blockPattern = new RegExp(`.*\\^${blockId}.*$`, "m");
-        const match = blockPattern.exec(fileContent);
+        if (!this.statusBarEl) {
+            this.statusBarEl = this.addStatusBarItem();
+            this.statusBarEl.setText('Last copy: -');
+        }
 
-        if (!match) return null;
+        if (stats) {
+            this.statusBarEl.setText(`Last copy: ~${stats.tokens.toLocaleString()} tokens`);
+            this.statusBarEl.setAttr('aria-label', this.formatContentStats(stats));
+        }
+    }
 
-        // Return the line content without the block ID using our cleaning function
-        return this.cleanBlockContent(match[0], blockId);
+    /**
+     * Returns a copy of the profile with the embed resolution step turned off
+     */
+    withoutEmbeds(profile: ExportProfile): ExportProfile {
+        const copy = cloneProfile(profile);
+        copy.pipeline = this.getPipelineSteps(profile).map(({ step, enabled }) => ({
+            id: step.id,
+            enabled: step.id === 'resolve-embeds' ? false : enabled
+        }));
+        return copy;
     }
 
-    // Capture heading from matching heading line until the next heading of equal/higher level
-    async getHeadingContent(filePath: string, heading: string): Promise<string | null> {
-        const file = this.app.metadataCache.getFirstLinkpathDest(filePath, "");
-        if (!file) return null;
-        const fileContent = await this.app.vault.read(file);
+    /**
+     * Renders processed markdown to HTML with Obsidian's Markdown renderer.
+     * Obsidian-only interface elements (copy buttons, fold indicators) are removed.
+     * @param content The processed markdown content
+     * @param sourcePath Path used to resolve links while rendering
+     * @returns The rendered HTML
+     */
+    async renderMarkdownToHtml(content: string, sourcePath: string): Promise<string> {
+        const container = document.createElement('div');
+        const component = new Component();
+        component.load();
 
-        // Escape special regex characters in heading text
-        const safeHeading = heading.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        try {
+            await MarkdownRenderer.render(this.app, content, container, sourcePath, component);
+            container.querySelectorAll('.copy-code-button, .heading-collapse-indicator, .collapse-indicator, .list-collapse-indicator')
+                .forEach(el => el.remove());
+            return container.innerHTML;
+        } finally {
+            component.unload();
+        }
+    }
 
-        // First, determine the level of the heading (number of #)
-        const headingLevelPattern = new RegExp(`^(#{1,6})\\s+${safeHeading}`, "m");
-        const levelMatch = headingLevelPattern.exec(fileContent);
-        if (!levelMatch) return null;
+    /**
+     * Saves the processed markdown content to a file
+     * @param scope Which part of the note to save
+     * @param profile Export options to use, defaults to the default profile
+     * @param linked Keep the saved file up to date with the note; only used for whole notes saved in the vault
+     */
+    async saveToFile(scope: ExportScope = 'note', profile: ExportProfile = this.getDefaultProfile(), linked = false) {
+        const source = await this.getActiveContent(scope);
+        if (!source) {
+            return;
+        }
 
-        const headingLevel = levelMatch[1].length;
+        await this.saveContent(source.content, source.file, profile, linked && scope === 'note', source.fromNoteStart);
+    }
 
-        // Match the heading line and capture until the next heading of same/higher level or EOF
-        const headingPattern = new RegExp(
-            `^#{${headingLevel}}\\s+${safeHeading}.*?$(\\n[\\s\\S]*?)(?=^#{1,${headingLevel}}\\s|$)`,
-            "m"
-        );
+    /**
+     * Runs content through the pipeline and saves the result, asking for a path unless the profile has one
+     * @param content Raw markdown to export
+     * @param currentFile Note the content comes from, used for links, embeds and the suggested name
+     * @param profile Export options to use
+     * @param linked Keep the saved file up to date with the whole note
+     * @param fromNoteStart Whether the content starts at the top of the note, so its frontmatter is exported
+     */
+    async saveContent(content: string, currentFile: TFile | null, profile: ExportProfile, linked = false, fromNoteStart = true) {
+        content = await this.runPipeline(content, {
+            sourcePath: currentFile?.path ?? "",
+            file: currentFile,
+            fromNoteStart,
+            profile
+        });
+
+        // Get current file name as a suggestion
+        const fileName = currentFile ? currentFile.basename : 'exported-content';
+        let format = profile.saveFormat;
+        const templateValues = this.getTemplateValues(currentFile, profile);
+        // Apply prefix and default location templates
+        const saveTarget = this.getSaveTarget(templateValues, profile, format);
+        const suggestedName = saveTarget.fileName;
+
+        // Saving outside the vault needs Node's file system, which mobile doesn't have
+        if (profile.saveOutsideVault && profile.externalSaveDirectory) {
+            if (linked) {
+                // Linked exports are watched and rewritten through the vault
+                new Notice("Linked exports are kept in the vault. Saving in the vault instead of the external folder.");
+            } else if (Platform.isDesktopApp) {
+                const title = currentFile ? currentFile.basename : fileName;
+                content = await this.convertToFormat(content, format, currentFile?.path ?? "", title);
+                await this.saveOutsideVault(content, suggestedName, format, currentFile, profile);
+                return;
+            } else {
+                new Notice("Saving outside the vault is only available on desktop. Saving in the vault instead.");
+            }
+        }
+
+        // If default save location is set, use it
+        let targetPath = saveTarget.targetPath;
+
+        // If no default path or it's empty, prompt the user
+        if (!targetPath) {
+            const input = document.createElement('input');
+            input.type = 'text';
+            input.value = suggestedName;
+
+            // The typed path may use templates too
+            const resolvePath = (value: string, chosenFormat: SaveFormat) => {
+                let path = sanitizeVaultPath(applyPathTemplate(value, templateValues));
+                // Ensure the extension matches the format
+                if (path && !path.endsWith(SAVE_FORMAT_EXTENSIONS[chosenFormat])) {
+                    path += SAVE_FORMAT_EXTENSIONS[chosenFormat];
+                }
+                return path;
+            };
+
+            // Create a promise to handle the modal response
+            const savePathPromise = new Promise<string>((resolve) => {
+                const modal = new SaveFileModal(this.app, input, format, (result, chosenFormat) => {
+                    format = chosenFormat;
+                    resolve(result ? resolvePath(result, chosenFormat) : '');
+                }, resolvePath);
+                modal.open();
+            });
+
+            targetPath = await savePathPromise;
+
+            // If user cancelled, abort
+            if (!targetPath) {
+                return;
+            }
+        }
+
+        const title = currentFile ? currentFile.basename : fileName;
+        content = await this.convertToFormat(content, format, currentFile?.path ?? "", title);
+
+        try {
+            // Check if the file already exists
+            const existingFile = this.getFileByPath(targetPath);
+
+            if (existingFile) {
+                const resolved = await this.resolveConflict(
+                    targetPath,
+                    profile,
+                    path => this.app.vault.getAbstractFileByPath(normalizePath(path)) !== null
+                );
+                if (!resolved) {
+                    // User declined, abort
+                    return;
+                }
+
+                if (resolved.append) {
+                    content = appendExport(await this.app.vault.read(existingFile), content, format, formatNow);
+                    // Regenerating would replace everything appended so far with a single export
+                    if (linked) {
+                        linked = false;
+                        new Notice("Exports added to the end of a file can't be kept up to date, so this one is not linked.");
+                    }
+                }
+                targetPath = resolved.path;
+            }
+
+            // Create or overwrite the file
+            await this.writeVaultFile(targetPath, content);
+            new Notice(`Content saved to ${targetPath}`);
 
-        const match = headingPattern.exec(fileContent);
-        return match ? match[1].trim() : null;
+            if (linked && currentFile) {
+                await this.linkExport({
+                    exportPath: normalizePath(targetPath),
+                    sourcePath: currentFile.path,
+                    profileId: profile.id,
+                    format,
+                    dependencies: this.collectEmbeddedFiles(currentFile, profile.maxEmbedDepth)
+                });
+            }
+
+            // Open the saved file if the setting is enabled; Obsidian can only show markdown
+            if (this.settings.openNewFile && format === 'markdown') {
+                const savedFile = this.getFileByPath(targetPath);
+                if (savedFile) {
+                    // Open the file in a new leaf (tab)
+                    await this.app.workspace.getLeaf('tab').openFile(savedFile);
+                }
+            }
+        } catch (error) {
+            console.error('Failed to save file:', error);
+            new Notice('Failed to save file. Check console for details.');
+        }
+    }
+
+    /**
+     * Applies the profile's conflict strategy to a save target that already exists,
+     * asking the user first unless the profile skips the prompt
+     * @param targetPath The existing path
+     * @param profile Profile with the conflict settings
+     * @param exists Checks whether a path is taken, used to find free names
+     * @returns The path to write to and whether to append, or null if the user cancelled
+     */
+    async resolveConflict(targetPath: string, profile: ExportProfile, exists: (path: string) => boolean): Promise<{ path: string; append: boolean } | null> {
+        const strategy = profile.conflictStrategy;
+        const path = strategy === 'suffix' || strategy === 'timestamp'
+            ? findFreePath(targetPath, strategy, exists, formatNow)
+            : targetPath;
+
+        if (profile.confirmConflicts) {
+            const prompts: Record<ConflictStrategy, { message: string; button: string }> = {
+                overwrite: { message: 'Do you want to overwrite it?', button: 'Overwrite' },
+                suffix: { message: `Save as "${path}" instead?`, button: 'Save Copy' },
+                timestamp: { message: `Save as "${path}" instead?`, button: 'Save Copy' },
+                append: { message: 'Do you want to add this export to the end of it?', button: 'Append' }
+            };
+
+            const confirmed = await new Promise<boolean>((resolve) => {
+                new ConfirmationModal(
+                    this.app,
+                    `The file "${targetPath}" already exists. ${prompts[strategy].message}`,
+                    resolve,
+                    prompts[strategy].button
+                ).open();
+            });
+            if (!confirmed) {
+                return null;
+            }
+        }
+
+        return { path, append: strategy === 'append' };
+    }
+
+    /**
+     * Watches the vault so linked exports follow their sources when they are edited, renamed or deleted
+     */
+    registerLinkedExportEvents() {
+        this.registerEvent(
+            this.app.vault.on('modify', (file) => {
+                // Writing an export must not trigger another round of updates
+                if (this.settings.linkedExports.some(linked => linked.exportPath === file.path)) return;
+
+                for (const linked of this.settings.linkedExports) {
+                    if (linked.sourcePath === file.path || linked.dependencies.includes(file.path)) {
+                        this.scheduleLinkedExport(linked);
+                    }
+                }
+            })
+        );
+
+        this.registerEvent(
+            this.app.vault.on('rename', async (file, oldPath) => {
+                let changed = false;
+                for (const linked of this.settings.linkedExports) {
+                    if (linked.sourcePath === oldPath) {
+                        linked.sourcePath = file.path;
+                        changed = true;
+                    }
+                    if (linked.exportPath === oldPath) {
+                        linked.exportPath = file.path;
+                        changed = true;
+                    }
+                    if (linked.dependencies.includes(oldPath)) {
+                        linked.dependencies = linked.dependencies.map(path => path === oldPath ? file.path : path);
+                        changed = true;
+                    }
+                }
+                if (changed) {
+                    await this.saveSettings();
+                }
+            })
+        );
+
+        this.registerEvent(
+            this.app.vault.on('delete', async (file) => {
+                // A deleted export or source can't be kept in sync anymore
+                const removed = this.settings.linkedExports.filter(linked =>
+                    linked.exportPath === file.path || linked.sourcePath === file.path);
+                if (removed.length > 0) {
+                    // A pending update would write the deleted export again
+                    removed.forEach(linked => this.cancelLinkedExportUpdate(linked.exportPath));
+                    this.settings.linkedExports = this.settings.linkedExports.filter(linked => !removed.includes(linked));
+                    await this.saveSettings();
+                }
+            })
+        );
+    }
+
+    /**
+     * Records a linked export, replacing any earlier link for the same export file
+     */
+    async linkExport(linked: LinkedExport) {
+        this.settings.linkedExports = this.settings.linkedExports
+            .filter(existing => existing.exportPath !== linked.exportPath)
+            .concat(linked);
+        await this.saveSettings();
+    }
+
+    /**
+     * Stops updating an export; the exported file itself is kept
+     */
+    async unlinkExport(exportPath: string) {
+        this.cancelLinkedExportUpdate(exportPath);
+        this.settings.linkedExports = this.settings.linkedExports.filter(linked => linked.exportPath !== exportPath);
+        await this.saveSettings();
+    }
+
+    /**
+     * Drops a scheduled regeneration of a linked export, if there is one
+     */
+    cancelLinkedExportUpdate(exportPath: string) {
+        const timer = this.linkedExportTimers.get(exportPath);
+        if (timer !== undefined) {
+            window.clearTimeout(timer);
+            this.linkedExportTimers.delete(exportPath);
+        }
+    }
+
+    /**
+     * Regenerates a linked export once its sources have stopped changing for a moment
+     */
+    scheduleLinkedExport(linked: LinkedExport) {
+        const pending = this.linkedExportTimers.get(linked.exportPath);
+        if (pending !== undefined) {
+            window.clearTimeout(pending);
+        }
+
+        this.linkedExportTimers.set(linked.exportPath, window.setTimeout(() => {
+            this.linkedExportTimers.delete(linked.exportPath);
+            this.regenerateLinkedExport(linked);
+        }, LINKED_EXPORT_DELAY));
+    }
+
+    /**
+     * Exports the source note again and overwrites the linked export with the result.
+     * Shows a notice when the export can't be updated.
+     * @returns Whether the export was updated
+     */
+    async regenerateLinkedExport(linked: LinkedExport): Promise<boolean> {
+        const source = this.getFileByPath(linked.sourcePath);
+        if (!source) {
+            new Notice(`Could not update ${linked.exportPath}: ${linked.sourcePath} no longer exists.`);
+            return false;
+        }
+
+        try {
+            const profile = this.getProfile(linked.profileId);
+            const raw = await this.readExportSource(source);
+            if (raw === null) {
+                return false;
+            }
+            let content = await this.runPipeline(raw, {
+                sourcePath: source.path,
+                file: source,
+                fromNoteStart: true,
+                profile
+            });
+            content = await this.convertToFormat(content, linked.format, source.path, source.basename);
+            await this.writeVaultFile(linked.exportPath, content);
+
+            // Embeds may have been added or removed since the last export
+            linked.dependencies = this.collectEmbeddedFiles(source, profile.maxEmbedDepth);
+            await this.saveSettings();
+            return true;
+        } catch (error) {
+            console.error(`Failed to update linked export ${linked.exportPath}:`, error);
+            new Notice(`Failed to update ${linked.exportPath}. Check console for details.`);
+            return false;
+        }
+    }
+
+    /**
+     * Finds the files a note transcludes, following embeds in embedded notes
+     * @param file The note to start from
+     * @param maxDepth How many levels of embeds to follow
+     * @param wholeNotesOnly Only follow embeds of whole notes, not of headings or blocks
+     * @returns Paths of the embedded files, without the note itself
+     */
+    collectEmbeddedFiles(file: TFile, maxDepth: number, wholeNotesOnly = false): string[] {
+        const found = new Set<string>();
+        let current = [file];
+
+        for (let depth = 0; depth < maxDepth && current.length > 0; depth++) {
+            const next: TFile[] = [];
+            for (const note of current) {
+                for (const embed of this.app.metadataCache.getFileCache(note)?.embeds ?? []) {
+                    if (wholeNotesOnly && embed.link.includes('#')) continue;
+                    const target = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(embed.link), note.path);
+                    if (target && target.path !== file.path && !found.has(target.path)) {
+                        found.add(target.path);
+                        if (target.extension === 'md') {
+                            next.push(target);
+                        }
+                    }
+                }
+            }
+            current = next;
+        }
+
+        return Array.from(found);
+    }
+
+    /**
+     * Collects the values for file name and path templates
+     */
+    getTemplateValues(file: TFile | null, profile: ExportProfile): TemplateValues {
+        return {
+            vaultName: this.app.vault.getName(),
+            basename: file ? file.basename : '',
+            folder: file?.parent && !file.parent.isRoot() ? file.parent.path : '',
+            profileName: profile.name,
+            frontmatter: (file ? this.app.metadataCache.getFileCache(file)?.frontmatter : undefined) ?? {},
+            formatDate: formatNow
+        };
+    }
+
+    /**
+     * Builds the suggested file name from the profile's prefix and, if the profile has a
+     * default save location, the full vault path to save to
+     * @returns The file name, and the target path or an empty string when the user should be asked
+     */
+    getSaveTarget(values: TemplateValues, profile: ExportProfile, format: SaveFormat): { fileName: string; targetPath: string } {
+        const baseName = values.basename || 'exported-content';
+        const fileName = sanitizeFileName(applyPathTemplate(profile.fileNamePrefix, values) + baseName) + SAVE_FORMAT_EXTENSIONS[format];
+
+        let targetPath = '';
+        if (profile.defaultSaveLocation.trim()) {
+            const location = sanitizeVaultPath(applyPathTemplate(profile.defaultSaveLocation, values));
+            // A location ending in a file extension is a full file path; its extension follows the format
+            const exportExtension = /\.(md|html|txt)$/i;
+            targetPath = exportExtension.test(location)
+                ? location.replace(exportExtension, SAVE_FORMAT_EXTENSIONS[format])
+                : normalizePath(`${location}/${fileName}`);
+        }
+
+        return { fileName, targetPath };
+    }
+
+    /**
+     * Writes an export to the profile's folder outside the vault, creating missing folders.
+     * Desktop only, callers must check Platform.isDesktopApp.
+     * @param content The converted file content
+     * @param fileName File name including the extension
+     * @param file The note being exported, used for template tokens
+     * @param profile Export options to use
+     */
+    async saveOutsideVault(content: string, fileName: string, format: SaveFormat, file: TFile | null, profile: ExportProfile) {
+        // Node modules only exist on desktop, so they are loaded on demand
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const fs: typeof import('fs') = require('fs');
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const path: typeof import('path') = require('path');
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const os: typeof import('os') = require('os');
+
+        let directory = applyPathTemplate(profile.externalSaveDirectory, this.getTemplateValues(file, profile)).trim();
+        if (directory === '~' || directory.startsWith('~/')) {
+            directory = path.join(os.homedir(), directory.slice(1));
+        }
+
+        if (!path.isAbsolute(directory)) {
+            new Notice(`"${directory}" is not an absolute path. Check the external save folder in the settings.`);
+            return;
+        }
+
+        let targetPath = path.join(directory, fileName);
+
+        try {
+            if (fs.existsSync(targetPath)) {
+                const resolved = await this.resolveConflict(targetPath, profile, candidate => fs.existsSync(candidate));
+                if (!resolved) {
+                    return;
+                }
+
+                if (resolved.append) {
+                    content = appendExport(await fs.promises.readFile(targetPath, 'utf8'), content, format, formatNow);
+                }
+                targetPath = resolved.path;
+            }
+
+            await fs.promises.mkdir(directory, { recursive: true });
+            await fs.promises.writeFile(targetPath, content, 'utf8');
+            new Notice(`Content saved to ${targetPath}`);
+        } catch (error) {
+            console.error('Failed to save file outside the vault:', error);
+            new Notice('Failed to save file. Check console for details.');
+        }
+    }
+
+    /**
+     * Converts processed markdown into the content of a file in the given format
+     * @param content The processed markdown content
+     * @param format Target file format
+     * @param sourcePath Path used to resolve links while rendering HTML
+     * @param title Document title for HTML output
+     */
+    async convertToFormat(content: string, format: SaveFormat, sourcePath: string, title: string): Promise<string> {
+        if (format === 'text') {
+            return markdownToPlainText(content);
+        }
+
+        if (format === 'html') {
+            return buildHtmlDocument(title, await this.renderMarkdownToHtml(content, sourcePath));
+        }
+
+        return content;
+    }
+
+    /**
+     * Exports every note in a folder and its subfolders
+     */
+    async exportFolder(folder: TFolder) {
+        const files: TFile[] = [];
+        Vault.recurseChildren(folder, (child: TAbstractFile) => {
+            if (child instanceof TFile) {
+                files.push(child);
+            }
+        });
+
+        const label = folder.isRoot() ? this.app.vault.getName() : folder.name;
+        await this.batchExport(files, label, folder.isRoot() ? "" : folder.path);
+    }
+
+    /**
+     * Exports every note with a tag, including nested tags like #tag/child
+     */
+    async exportTag(tag: string) {
+        const files = this.app.vault.getMarkdownFiles().filter(file => {
+            const cache = this.app.metadataCache.getFileCache(file);
+            const tags = cache ? getAllTags(cache) ?? [] : [];
+            return tags.some(fileTag => fileTag === tag || fileTag.startsWith(`${tag}/`));
+        });
+
+        await this.batchExport(files, tag.replace(/^#/, ''), "");
+    }
+
+    /**
+     * Runs several notes through the default profile's pipeline and writes the result
+     * as one concatenated document, to the clipboard, or as a mirrored folder.
+     * @param files Files to export; non-markdown files are skipped
+     * @param label Name of what is being exported, used for the suggested destination
+     * @param baseFolder Folder the mirrored paths are relative to, empty for the vault root
+     */
+    async batchExport(files: TFile[], label: string, baseFolder: string) {
+        const profile = this.getDefaultProfile();
+        const notes = files.filter(file => file.extension === 'md');
+        const skippedCount = files.length - notes.length;
+
+        if (notes.length === 0) {
+            new Notice("No markdown notes found to export.");
+            return;
+        }
+
+        const options = await new Promise<BatchExportOptions | null>((resolve) => {
+            const saveLocation = profile.defaultSaveLocation.trim()
+                ? sanitizeVaultPath(applyPathTemplate(profile.defaultSaveLocation, this.getTemplateValues(null, profile)))
+                : '';
+            new BatchExportModal(this.app, label, notes.length, saveLocation, resolve).open();
+        });
+        if (!options) {
+            return;
+        }
+
+        const progress = new Notice(`Exporting 0/${notes.length} notes...`, 0);
+        const failures: { path: string; message: string }[] = [];
+        const sections: string[] = [];
+
+        for (let i = 0; i < notes.length; i++) {
+            const file = notes[i];
+            progress.setMessage(`Exporting ${i + 1}/${notes.length}: ${file.path}`);
+
+            try {
+                const content = await this.runPipeline(await this.app.vault.read(file), {
+                    sourcePath: file.path,
+                    file,
+                    fromNoteStart: true,
+                    profile
+                });
+
+                if (options.output === 'folder') {
+                    // Keep the folder structure below the exported folder
+                    const relativePath = baseFolder && file.path.startsWith(`${baseFolder}/`)
+                        ? file.path.slice(baseFolder.length + 1)
+                        : file.path;
+                    await this.writeVaultFile(`${options.destination}/${relativePath}`, content);
+                } else {
+                    sections.push(`# ${file.path.replace(/\.md$/, '')}\n\n${content.trim()}`);
+                }
+            } catch (error) {
+                console.error(`Failed to export ${file.path}:`, error);
+                failures.push({ path: file.path, message: error instanceof Error ? error.message : String(error) });
+            }
+        }
+
+        progress.hide();
+
+        try {
+            if (options.output === 'single-file') {
+                let targetPath = options.destination;
+                if (!targetPath.endsWith('.md')) {
+                    targetPath += '.md';
+                }
+                await this.writeVaultFile(targetPath, sections.join('\n\n---\n\n'));
+            } else if (options.output === 'clipboard') {
+                await navigator.clipboard.writeText(sections.join('\n\n---\n\n'));
+            }
+        } catch (error) {
+            console.error('Failed to write batch export:', error);
+            new Notice('Failed to write the export. Check console for details.');
+            return;
+        }
+
+        const exportedCount = notes.length - failures.length;
+        let summary = `Exported ${exportedCount} of ${notes.length} notes`;
+        if (skippedCount > 0) {
+            summary += `, skipped ${skippedCount} non-markdown files`;
+        }
+
+        if (failures.length > 0) {
+            new BatchExportSummaryModal(this.app, summary, failures).open();
+        } else {
+            new Notice(`${summary}.`);
+        }
+    }
+
+    /**
+     * Copies the active note and the notes it links to (or that link to it),
+     * each wrapped in a <document path="..."> section.
+     */
+    async copyWithContext() {
+        const activeFile = this.app.workspace.getActiveFile();
+        if (!activeFile || activeFile.extension !== 'md') {
+            new Notice("No active markdown note found.");
+            return;
+        }
+
+        const profile = this.getDefaultProfile();
+        const notes = this.collectContextNotes(activeFile, profile);
+        const documents: string[] = [];
+        let failedCount = 0;
+
+        for (const file of notes) {
+            try {
+                const content = await this.runPipeline(await this.app.vault.read(file), {
+                    sourcePath: file.path,
+                    file,
+                    fromNoteStart: true,
+                    profile
+                });
+                documents.push(wrapDocument(file.path, content));
+            } catch (error) {
+                console.error(`Failed to export ${file.path}:`, error);
+                failedCount++;
+            }
+        }
+
+        await navigator.clipboard.writeText(documents.join('\n\n'));
+
+        let message = `Copied ${documents.length} notes to clipboard!`;
+        if (failedCount > 0) {
+            message += ` ${failedCount} notes failed, check console for details.`;
+        }
+        new Notice(message);
+    }
+
+    /**
+     * Collects the notes within the configured number of link hops from a note.
+     * The start note always comes first; the rest follow the configured order.
+     * @param startFile The note to start from
+     * @param profile Profile the notes are exported with, which decides whether embedded notes are already included
+     */
+    collectContextNotes(startFile: TFile, profile: ExportProfile): TFile[] {
+        const resolvedLinks = this.app.metadataCache.resolvedLinks;
+        const direction = this.settings.contextLinkDirection;
+
+        // Build the reverse index once for backlinks
+        const backlinks: Record<string, string[]> = {};
+        if (direction !== 'outgoing') {
+            for (const source in resolvedLinks) {
+                for (const target in resolvedLinks[source]) {
+                    (backlinks[target] ??= []).push(source);
+                }
+            }
+        }
+
+        // Breadth-first search, remembering how far each note is from the start
+        const distances = new Map<string, number>([[startFile.path, 0]]);
+        let frontier = [startFile.path];
+        for (let hop = 1; hop <= this.settings.contextHops && frontier.length > 0; hop++) {
+            const next: string[] = [];
+            for (const path of frontier) {
+                const neighbours = [
+                    ...(direction !== 'backlinks' ? Object.keys(resolvedLinks[path] ?? {}) : []),
+                    ...(direction !== 'outgoing' ? backlinks[path] ?? [] : [])
+                ];
+                for (const neighbour of neighbours) {
+                    if (!distances.has(neighbour) && neighbour.endsWith('.md')) {
+                        distances.set(neighbour, hop);
+                        next.push(neighbour);
+                    }
+                }
+            }
+            frontier = next;
+        }
+
+        const files = Array.from(distances.keys())
+            .map(path => this.getFileByPath(path))
+            .filter((file): file is TFile => file !== null);
+
+        const [start, ...rest] = files;
+        if (this.settings.contextOrder === 'alphabetical') {
+            rest.sort((a, b) => a.path.localeCompare(b.path));
+        } else if (this.settings.contextOrder === 'modified') {
+            rest.sort((a, b) => b.stat.mtime - a.stat.mtime);
+        } else {
+            rest.sort((a, b) => (distances.get(a.path) ?? 0) - (distances.get(b.path) ?? 0));
+        }
+
+        // Without the embed step nothing is inlined, so every note is needed
+        const resolvesEmbeds = this.getPipelineSteps(profile).some(({ step, enabled }) => step.id === 'resolve-embeds' && enabled);
+        if (!this.settings.contextSkipEmbedded || !resolvesEmbeds) {
+            return [start, ...rest];
+        }
+
+        // Notes an earlier bundled note embeds in full, within the embed depth, are already in the output.
+        // Only kept notes count, so two notes embedding each other can't both drop out.
+        const embedded = new Set<string>();
+        const kept: TFile[] = [];
+        for (const file of [start, ...rest]) {
+            if (embedded.has(file.path)) continue;
+            kept.push(file);
+
+            for (const path of this.collectEmbeddedFiles(file, profile.maxEmbedDepth, true)) {
+                embedded.add(path);
+            }
+        }
+
+        return kept;
+    }
+
+    /**
+     * Creates or overwrites a file in the vault, creating missing parent folders
+     */
+    async writeVaultFile(path: string, content: string) {
+        path = normalizePath(path);
+
+        const folderPath = path.split('/').slice(0, -1).join('/');
+        if (folderPath && !this.app.vault.getAbstractFileByPath(folderPath)) {
+            await this.app.vault.createFolder(folderPath);
+        }
+
+        const existingFile = this.getFileByPath(path);
+        if (existingFile) {
+            await this.app.vault.modify(existingFile, content);
+        } else {
+            await this.app.vault.create(path, content);
+        }
+    }
+
+    /**
+     * Expands embeds recursively, up to the profile's maximum depth.
+     * @param content The markdown content to process
+     * @param context Export context; its sourcePath is used for link resolution
+     * @returns Content with embeds replaced by the referenced text
+     */
+    async resolveBlockReferences(content: string, context: ExportContext): Promise<string> {
+        return resolveEmbeds(this.vaultAccess, content, context.sourcePath, {
+            maxEmbedDepth: context.profile.maxEmbedDepth,
+            headingLine: context.profile.embedHeadingLine,
+            shiftHeadings: context.profile.shiftEmbeddedHeadings,
+            wrapper: context.profile.embedWrapper,
+            // The remove-block-ids step may have run before the embedded blocks were inserted
+            removeBlockIds: this.getPipelineSteps(context.profile).some(({ step, enabled }) => step.id === 'remove-block-ids' && enabled),
+            formatSource: context.profile.attributeEmbeds
+                ? (path, subpath) => this.formatEmbedSource(path, subpath, context.profile)
+                : undefined,
+            resolveAttachment: async (file, embed) => {
+                const attachment = this.getFileByPath(file.path);
+                return attachment ? await this.resolveAttachmentEmbed(attachment, embed, context) : embed;
+            }
+        });
+    }
+
+    /**
+     * Writes the footnote text for an attributed embed: its path, heading or block ID,
+     * linked with an obsidian:// URI or to the published site if the profile asks for it
+     * @param path Path of the embedded note
+     * @param subpath Heading or ^blockId, empty for a whole note
+     * @param profile Export options to use
+     */
+    formatEmbedSource(path: string, subpath: string, profile: ExportProfile): string {
+        const label = subpath ? `${path}#${subpath}` : path;
+
+        if (profile.attributionLinks === 'obsidian-uri') {
+            const vaultName = encodeURIComponent(this.app.vault.getName());
+            return `[${label}](obsidian://open?vault=${vaultName}&file=${encodeURIComponent(label)})`;
+        }
+
+        const baseUrl = profile.linkBaseUrl.replace(/\/+$/, '');
+        if (profile.attributionLinks === 'base-url' && baseUrl) {
+            const urlPath = path.replace(/\.md$/, '').split('/').map(encodeURIComponent).join('/');
+            const anchor = subpath ? `#${toLinkAnchor(subpath)}` : "";
+            return `[${label}](${baseUrl}/${urlPath}${anchor})`;
+        }
+
+        return label;
+    }
+
+    /**
+     * Converts an embed of a non-Markdown file according to the profile's attachment setting
+     * @param file The embedded attachment
+     * @param fullMatch The embed as written in the note
+     * @param context Export context; links are relative to its source note
+     * @returns Text to put in place of the embed
+     */
+    async resolveAttachmentEmbed(file: TFile, fullMatch: string, context: ExportContext): Promise<string> {
+        const mimeType = IMAGE_MIME_TYPES[file.extension.toLowerCase()];
+
+        switch (context.profile.attachmentEmbeds) {
+            case 'keep':
+                return fullMatch;
+            case 'link':
+                // Only images can be shown inline by other Markdown apps
+                return `${mimeType ? '!' : ''}[${file.name}](${encodeURI(relativePath(context.sourcePath, file.path))})`;
+            case 'base64':
+                if (mimeType) {
+                    try {
+                        const data = await this.app.vault.readBinary(file);
+                        return `![${file.name}](data:${mimeType};base64,${arrayBufferToBase64(data)})`;
+                    } catch (error) {
+                        console.error(`Failed to read attachment ${file.path}:`, error);
+                    }
+                }
+                // Other attachments can't be inlined, fall back to a placeholder
+                return `[Attachment: ${file.name}]`;
+            default:
+                return `[Attachment: ${file.name}]`;
+        }
     }
 
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        const data = await this.loadData();
+
+        // Top-level options of older versions only feed the migration below
+        const stored = Object.assign({}, data);
+        const hasLegacySettings = LEGACY_SETTING_KEYS.some(key => key in stored);
+        for (const key of LEGACY_SETTING_KEYS) {
+            delete stored[key];
+        }
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, stored);
+
+        if (Array.isArray(data?.profiles) && data.profiles.length > 0) {
+            // Fill in options added since the profiles were saved
+            this.settings.profiles = data.profiles.map((profile: ExportProfile) =>
+                Object.assign(cloneProfile(DEFAULT_PROFILE), profile));
+        } else {
+            // Older versions stored a single set of options at the top level
+            const profile = cloneProfile(DEFAULT_PROFILE);
+            if (Array.isArray(data?.pipeline)) {
+                profile.pipeline = data.pipeline;
+            } else {
+                profile.pipeline = profile.pipeline.map(entry => {
+                    if (entry.id === 'remove-metadata' && typeof data?.removeMetadata === 'boolean') {
+                        return { id: entry.id, enabled: data.removeMetadata };
+                    }
+                    if (entry.id === 'remove-block-ids' && typeof data?.removeBlockIds === 'boolean') {
+                        return { id: entry.id, enabled: data.removeBlockIds };
+                    }
+                    return entry;
+                });
+            }
+            if (typeof data?.maxEmbedDepth === 'number') profile.maxEmbedDepth = data.maxEmbedDepth;
+            if (typeof data?.fileNamePrefix === 'string') profile.fileNamePrefix = data.fileNamePrefix;
+            if (typeof data?.defaultSaveLocation === 'string') profile.defaultSaveLocation = data.defaultSaveLocation;
+
+            this.settings.profiles = [profile];
+            this.settings.defaultProfileId = profile.id;
+        }
+
+        // Drop the migrated options from the saved data too
+        if (hasLegacySettings) {
+            await this.saveSettings();
+        }
     }
 
     async saveSettings() {
@@ -794,6 +2032,10 @@ export default class EditorToClipboardPlugin extends Plugin {
     }
 
     onunload() {
+        // Drop pending linked export updates
+        this.linkedExportTimers.forEach(timer => window.clearTimeout(timer));
+        this.linkedExportTimers.clear();
+
         // Clean up all button elements when plugin is disabled
         document.querySelectorAll('.editor-to-clipboard-floating-container').forEach(el => el.remove());
         document.querySelectorAll('.editor-to-clipboard-top-note-container').forEach(el => el.remove());
@@ -810,61 +2052,381 @@ export default class EditorToClipboardPlugin extends Plugin {
 class SaveFileModal extends Modal {
     result: string;
     inputEl: HTMLInputElement;
-    onSubmit: (result: string) => void;
+    format: SaveFormat;
+    onSubmit: (result: string, format: SaveFormat) => void;
+    preview?: (value: string, format: SaveFormat) => string;
+    updatePreview: () => void = () => undefined;
+
+    constructor(app: App, inputEl: HTMLInputElement, format: SaveFormat, onSubmit: (result: string, format: SaveFormat) => void, preview?: (value: string, format: SaveFormat) => string) {
+        super(app);
+        this.inputEl = inputEl;
+        this.format = format;
+        this.onSubmit = onSubmit;
+        this.preview = preview;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl('h2', { text: 'Save to file' });
+
+        new Setting(contentEl)
+            .setName('Format')
+            .addDropdown(dropdown => dropdown
+                .addOption('markdown', 'Markdown (.md)')
+                .addOption('html', 'Standalone HTML (.html)')
+                .addOption('text', 'Plain Text (.txt)')
+                .setValue(this.format)
+                .onChange((value) => {
+                    // Swap the extension in the suggested path
+                    const oldExtension = SAVE_FORMAT_EXTENSIONS[this.format];
+                    this.format = value as SaveFormat;
+                    if (this.inputEl.value.endsWith(oldExtension)) {
+                        this.inputEl.value = this.inputEl.value.slice(0, -oldExtension.length) + SAVE_FORMAT_EXTENSIONS[this.format];
+                    }
+                    this.updatePreview();
+                }));
+
+        contentEl.createEl('p', {
+            text: 'Enter the file path where you want to save the content:'
+        });
+
+        // Add the input element with class instead of inline style
+        this.inputEl.addClass('editor-to-clipboard-modal-input');
+        contentEl.appendChild(this.inputEl);
+        this.inputEl.focus();
+
+        // Show where the file will end up once templates are filled in
+        const previewEl = contentEl.createEl('p', { cls: 'setting-item-description' });
+        this.updatePreview = () => {
+            if (this.preview) {
+                previewEl.setText(`Will save to: ${this.preview(this.inputEl.value, this.format) || '(no file name)'}`);
+            }
+        };
+        this.inputEl.addEventListener('input', () => this.updatePreview());
+        this.updatePreview();
+
+        // Add action buttons with classes instead of inline styles
+        const buttonContainer = contentEl.createEl('div', {
+            cls: 'editor-to-clipboard-modal-button-container'
+        });
+
+        const saveButton = buttonContainer.createEl('button', { text: 'Save' });
+        saveButton.addEventListener('click', () => {
+            this.close();
+            this.onSubmit(this.inputEl.value, this.format);
+        });
+
+        const cancelButton = buttonContainer.createEl('button', {
+            text: 'Cancel',
+            cls: 'editor-to-clipboard-modal-cancel-button'
+        });
+        cancelButton.addEventListener('click', () => {
+            this.close();
+            this.onSubmit('', this.format);
+        });
+
+        // Handle Enter key
+        this.inputEl.addEventListener('keydown', (event) => {
+            if (event.key === 'Enter') {
+                event.preventDefault();
+                this.close();
+                this.onSubmit(this.inputEl.value, this.format);
+            }
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// Custom modal for choosing where a batch export goes
+class BatchExportModal extends Modal {
+    label: string;
+    noteCount: number;
+    saveLocation: string;
+    onSubmit: (options: BatchExportOptions | null) => void;
+    submitted = false;
+
+    constructor(app: App, label: string, noteCount: number, saveLocation: string, onSubmit: (options: BatchExportOptions | null) => void) {
+        super(app);
+        this.label = label;
+        this.noteCount = noteCount;
+        this.saveLocation = saveLocation;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl('h2', { text: `Export "${this.label}"` });
+
+        contentEl.createEl('p', {
+            text: `${this.noteCount} notes will be exported.`
+        });
+
+        // Suggested destinations for each output type
+        const folder = this.saveLocation.replace(/\/+$/, '');
+        const suggestedFile = normalizePath(`${folder}/${this.label} (Export).md`);
+        const suggestedFolder = normalizePath(`${folder}/${this.label} (Export)`);
+
+        const options: BatchExportOptions = { output: 'single-file', destination: suggestedFile };
+        let destinationInput: HTMLInputElement;
+
+        new Setting(contentEl)
+            .setName('Output')
+            .addDropdown(dropdown => dropdown
+                .addOption('single-file', 'One document with all notes')
+                .addOption('clipboard', 'One document, copied to clipboard')
+                .addOption('folder', 'Folder with one file per note')
+                .setValue(options.output)
+                .onChange((value) => {
+                    options.output = value as BatchOutput;
+                    options.destination = options.output === 'folder' ? suggestedFolder : suggestedFile;
+                    destinationSetting.settingEl.toggle(options.output !== 'clipboard');
+                    destinationInput.value = options.destination;
+                }));
+
+        const destinationSetting = new Setting(contentEl)
+            .setName('Destination')
+            .setDesc('File or folder path in the vault.')
+            .addText(text => {
+                destinationInput = text.inputEl;
+                destinationInput.addClass('editor-to-clipboard-modal-input');
+                text.setValue(options.destination)
+                    .onChange((value) => {
+                        options.destination = value;
+                    });
+            });
+
+        const buttonContainer = contentEl.createEl('div', {
+            cls: 'editor-to-clipboard-modal-button-container'
+        });
+
+        const exportButton = buttonContainer.createEl('button', { text: 'Export', cls: 'mod-cta' });
+        exportButton.addEventListener('click', () => {
+            if (options.output !== 'clipboard' && !options.destination.trim()) {
+                new Notice("Please enter a destination.");
+                return;
+            }
+            this.submitted = true;
+            this.close();
+            this.onSubmit(options);
+        });
+
+        const cancelButton = buttonContainer.createEl('button', {
+            text: 'Cancel',
+            cls: 'editor-to-clipboard-modal-cancel-button'
+        });
+        cancelButton.addEventListener('click', () => {
+            this.close();
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        // Closing the modal any other way counts as cancelling
+        if (!this.submitted) {
+            this.onSubmit(null);
+        }
+    }
+}
+
+// Custom modal listing the notes a batch export failed on
+class BatchExportSummaryModal extends Modal {
+    summary: string;
+    failures: { path: string; message: string }[];
+
+    constructor(app: App, summary: string, failures: { path: string; message: string }[]) {
+        super(app);
+        this.summary = summary;
+        this.failures = failures;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl('h2', { text: 'Export finished with errors' });
+
+        contentEl.createEl('p', {
+            text: `${this.summary}. These notes could not be exported:`
+        });
+
+        const list = contentEl.createEl('ul');
+        for (const failure of this.failures) {
+            list.createEl('li', { text: `${failure.path}: ${failure.message}` });
+        }
+
+        const buttonContainer = contentEl.createEl('div', {
+            cls: 'editor-to-clipboard-modal-button-container'
+        });
+
+        const closeButton = buttonContainer.createEl('button', { text: 'Close' });
+        closeButton.addEventListener('click', () => {
+            this.close();
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// Modal listing linked exports, with a button to unlink each one
+class LinkedExportsModal extends Modal {
+    plugin: EditorToClipboardPlugin;
+
+    constructor(app: App, plugin: EditorToClipboardPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        this.display();
+    }
+
+    display() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Linked exports' });
+
+        const linkedExports = this.plugin.settings.linkedExports;
+        if (linkedExports.length === 0) {
+            contentEl.createEl('p', {
+                text: 'No linked exports yet. Use "Save active note as a linked export" to create one.'
+            });
+        }
+
+        for (const linked of linkedExports) {
+            new Setting(contentEl)
+                .setName(linked.exportPath)
+                .setDesc(`From ${linked.sourcePath} using the "${this.plugin.getProfile(linked.profileId).name}" profile`)
+                .addButton(button => button
+                    .setButtonText('Update Now')
+                    .onClick(async () => {
+                        // Failures are reported by the plugin
+                        if (await this.plugin.regenerateLinkedExport(linked)) {
+                            new Notice(`Updated ${linked.exportPath}`);
+                        }
+                    }))
+                .addButton(button => button
+                    .setButtonText('Unlink')
+                    .setWarning()
+                    .onClick(async () => {
+                        await this.plugin.unlinkExport(linked.exportPath);
+                        this.display();
+                    }));
+        }
+
+        const buttonContainer = contentEl.createEl('div', {
+            cls: 'editor-to-clipboard-modal-button-container'
+        });
+
+        const closeButton = buttonContainer.createEl('button', { text: 'Close' });
+        closeButton.addEventListener('click', () => {
+            this.close();
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// Suggest modal for picking one of the tags used in the vault
+class TagSuggestModal extends FuzzySuggestModal<string> {
+    onChoose: (tag: string) => void;
+
+    constructor(app: App, onChoose: (tag: string) => void) {
+        super(app);
+        this.onChoose = onChoose;
+        this.setPlaceholder('Choose a tag to export...');
+    }
+
+    getItems(): string[] {
+        const tags = new Set<string>();
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const cache = this.app.metadataCache.getFileCache(file);
+            for (const tag of (cache ? getAllTags(cache) : null) ?? []) {
+                tags.add(tag);
+            }
+        }
+        return Array.from(tags).sort();
+    }
+
+    getItemText(tag: string): string {
+        return tag;
+    }
+
+    onChooseItem(tag: string) {
+        this.onChoose(tag);
+    }
+}
 
-    constructor(app: App, inputEl: HTMLInputElement, onSubmit: (result: string) => void) {
+// Custom modal shown when copied content is over the token budget
+class TokenBudgetModal extends Modal {
+    stats: ContentStats;
+    budget: number;
+    onChoose: (choice: BudgetChoice) => void;
+    chosen = false;
+
+    constructor(app: App, stats: ContentStats, budget: number, onChoose: (choice: BudgetChoice) => void) {
         super(app);
-        this.inputEl = inputEl;
-        this.onSubmit = onSubmit;
+        this.stats = stats;
+        this.budget = budget;
+        this.onChoose = onChoose;
     }
 
     onOpen() {
         const { contentEl } = this;
 
-        contentEl.createEl('h2', { text: 'Save to file' });
+        contentEl.createEl('h2', { text: 'Over token budget' });
 
         contentEl.createEl('p', {
-            text: 'Enter the file path where you want to save the content:'
+            text: `The processed content is about ${this.stats.tokens.toLocaleString()} tokens (${this.stats.characters.toLocaleString()} characters, ${this.stats.words.toLocaleString()} words), which is over the budget of ${this.budget.toLocaleString()} tokens.`
         });
 
-        // Add the input element with class instead of inline style
-        this.inputEl.addClass('editor-to-clipboard-modal-input');
-        contentEl.appendChild(this.inputEl);
-        this.inputEl.focus();
-
-        // Add action buttons with classes instead of inline styles
         const buttonContainer = contentEl.createEl('div', {
             cls: 'editor-to-clipboard-modal-button-container'
         });
 
-        const saveButton = buttonContainer.createEl('button', { text: 'Save' });
-        saveButton.addEventListener('click', () => {
-            this.close();
-            this.onSubmit(this.inputEl.value);
+        const truncateButton = buttonContainer.createEl('button', {
+            text: 'Truncate',
+            cls: 'editor-to-clipboard-modal-cancel-button'
         });
+        truncateButton.addEventListener('click', () => this.choose('truncate'));
 
-        const cancelButton = buttonContainer.createEl('button', {
-            text: 'Cancel',
+        const dropEmbedsButton = buttonContainer.createEl('button', {
+            text: 'Drop Embeds',
             cls: 'editor-to-clipboard-modal-cancel-button'
         });
-        cancelButton.addEventListener('click', () => {
-            this.close();
-            this.onSubmit('');
-        });
+        dropEmbedsButton.addEventListener('click', () => this.choose('drop-embeds'));
 
-        // Handle Enter key
-        this.inputEl.addEventListener('keydown', (event) => {
-            if (event.key === 'Enter') {
-                event.preventDefault();
-                this.close();
-                this.onSubmit(this.inputEl.value);
-            }
-        });
+        const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelButton.addEventListener('click', () => this.choose('cancel'));
+    }
+
+    choose(choice: BudgetChoice) {
+        this.chosen = true;
+        this.close();
+        this.onChoose(choice);
     }
 
     onClose() {
         const { contentEl } = this;
         contentEl.empty();
+
+        // Closing the modal any other way counts as cancelling
+        if (!this.chosen) {
+            this.onChoose('cancel');
+        }
     }
 }
 
@@ -872,11 +2434,13 @@ class SaveFileModal extends Modal {
 class ConfirmationModal extends Modal {
     message: string;
     onConfirm: (confirmed: boolean) => void;
+    confirmText: string;
 
-    constructor(app: App, message: string, onConfirm: (confirmed: boolean) => void) {
+    constructor(app: App, message: string, onConfirm: (confirmed: boolean) => void, confirmText = 'Overwrite') {
         super(app);
         this.message = message;
         this.onConfirm = onConfirm;
+        this.confirmText = confirmText;
     }
 
     onOpen() {
@@ -893,7 +2457,7 @@ class ConfirmationModal extends Modal {
             cls: 'editor-to-clipboard-modal-button-container'
         });
 
-        const confirmButton = buttonContainer.createEl('button', { text: 'Overwrite' });
+        const confirmButton = buttonContainer.createEl('button', { text: this.confirmText });
         confirmButton.addEventListener('click', () => {
             this.close();
             this.onConfirm(true);
@@ -917,6 +2481,7 @@ class ConfirmationModal extends Modal {
 
 class EditorToClipboardSettingTab extends PluginSettingTab {
     plugin: EditorToClipboardPlugin;
+    editingProfileId: string | null = null; // Profile shown in the profile settings
 
     constructor(app: App, plugin: EditorToClipboardPlugin) {
         super(app, plugin);
@@ -929,32 +2494,523 @@ class EditorToClipboardSettingTab extends PluginSettingTab {
 
         containerEl.createEl('h2', { text: 'Settings for Editor to Clipboard Plugin' });
 
+        // Profile settings
+        containerEl.createEl('h3', { text: 'Export Profiles' });
+
+        const profile = this.plugin.getProfile(this.editingProfileId ?? this.plugin.settings.defaultProfileId);
+        this.editingProfileId = profile.id;
+
+        new Setting(containerEl)
+            .setName('Default Profile')
+            .setDesc('Profile used by the buttons and the main copy and save commands. Every profile also has its own commands, which you can assign hotkeys to.')
+            .addDropdown(dropdown => {
+                for (const option of this.plugin.settings.profiles) {
+                    dropdown.addOption(option.id, option.name);
+                }
+                dropdown
+                    .setValue(this.plugin.getDefaultProfile().id)
+                    .onChange(async (value) => {
+                        this.plugin.settings.defaultProfileId = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Edit Profile')
+            .setDesc('Choose the profile to edit below.')
+            .addDropdown(dropdown => {
+                for (const option of this.plugin.settings.profiles) {
+                    dropdown.addOption(option.id, option.name);
+                }
+                dropdown
+                    .setValue(profile.id)
+                    .onChange((value) => {
+                        this.editingProfileId = value;
+                        this.display();
+                    });
+            })
+            .addButton(button => button
+                .setButtonText('New')
+                .onClick(async () => {
+                    const created = await this.plugin.createProfile('New Profile');
+                    this.editingProfileId = created.id;
+                    this.display();
+                }))
+            .addButton(button => button
+                .setButtonText('Duplicate')
+                .onClick(async () => {
+                    const created = await this.plugin.createProfile(`${profile.name} (Copy)`, profile);
+                    this.editingProfileId = created.id;
+                    this.display();
+                }))
+            .addButton(button => button
+                .setButtonText('Delete')
+                .setWarning()
+                .setDisabled(this.plugin.settings.profiles.length <= 1)
+                .onClick(async () => {
+                    await this.plugin.deleteProfile(profile.id);
+                    this.editingProfileId = null;
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('Profile Name')
+            .setDesc('Shown in the command names for this profile.')
+            .addText(text => {
+                text.setValue(profile.name)
+                    .onChange(async (value) => {
+                        profile.name = value || 'Untitled Profile';
+                        await this.plugin.saveSettings();
+                    });
+                // Rename the commands once typing is done rather than on every keystroke
+                text.inputEl.addEventListener('blur', () => this.plugin.registerProfileCommands());
+            });
+
         // Content settings
         containerEl.createEl('h3', { text: 'Content Settings' });
 
+        containerEl.createEl('p', {
+            text: 'Exported content goes through these steps from top to bottom. Toggle a step to turn it on or off, and use the arrows to change the order.',
+            cls: 'setting-item-description'
+        });
+
+        const steps = this.plugin.getPipelineSteps(profile);
+        steps.forEach((entry, index) => {
+            new Setting(containerEl)
+                .setName(entry.step.name)
+                .setDesc(entry.step.description ?? '')
+                .addExtraButton(button => button
+                    .setIcon('arrow-up')
+                    .setTooltip('Move up')
+                    .setDisabled(index === 0)
+                    .onClick(async () => {
+                        if (index === 0) return;
+                        [steps[index - 1], steps[index]] = [steps[index], steps[index - 1]];
+                        await this.plugin.setPipelineSteps(profile, steps);
+                        this.display();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('arrow-down')
+                    .setTooltip('Move down')
+                    .setDisabled(index === steps.length - 1)
+                    .onClick(async () => {
+                        if (index === steps.length - 1) return;
+                        [steps[index], steps[index + 1]] = [steps[index + 1], steps[index]];
+                        await this.plugin.setPipelineSteps(profile, steps);
+                        this.display();
+                    }))
+                .addToggle(toggle => toggle
+                    .setValue(entry.enabled)
+                    .onChange(async (value) => {
+                        entry.enabled = value;
+                        await this.plugin.setPipelineSteps(profile, steps);
+                    }));
+        });
+
+        new Setting(containerEl)
+            .setName('Maximum Embed Depth')
+            .setDesc('How many levels of nested embeds to expand. Embeds deeper than this are left as they are. Embeds that would include themselves are replaced with a placeholder.')
+            .addSlider(slider => slider
+                .setLimits(1, 10, 1)
+                .setValue(profile.maxEmbedDepth)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    profile.maxEmbedDepth = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Embedded Heading')
+            .setDesc('What to do with the heading line of an embedded section like ![[Note#Heading]] or ![[Note#Parent#Child]]. "Fit" moves the section\'s headings so it becomes a subsection of the heading the embed is under.')
+            .addDropdown(dropdown => dropdown
+                .addOption('keep', 'Keep as written')
+                .addOption('drop', 'Drop the heading line')
+                .addOption('fit', 'Fit to the note')
+                .setValue(profile.embedHeadingLine)
+                .onChange(async (value) => {
+                    profile.embedHeadingLine = value as HeadingLineMode;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Fit Embedded Headings')
+            .setDesc('Move the headings of embedded content so they fit below the heading the embed is under, e.g. a ## Section embedded under #### Subsection becomes ##### Section. Levels stay between H1 and H6.')
+            .addToggle(toggle => toggle
+                .setValue(profile.shiftEmbeddedHeadings)
+                .onChange(async (value) => {
+                    profile.shiftEmbeddedHeadings = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Mark Embedded Content')
+            .setDesc('Set embeds on a line of their own apart from the note\'s own text.')
+            .addDropdown(dropdown => dropdown
+                .addOption('none', 'Don\'t mark')
+                .addOption('blockquote', 'Blockquote')
+                .addOption('source', 'Blockquote with "From [[Note]]:" line')
+                .setValue(profile.embedWrapper)
+                .onChange(async (value) => {
+                    profile.embedWrapper = value as EmbedWrapper;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Cite Embed Sources')
+            .setDesc('Add a footnote to every resolved embed and a "Sources" section at the end listing the notes, headings and block IDs they came from. Repeated sources share a footnote.')
+            .addToggle(toggle => toggle
+                .setValue(profile.attributeEmbeds)
+                .onChange(async (value) => {
+                    profile.attributeEmbeds = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Source Links')
+            .setDesc('How sources are listed. Published site links use the Published Site URL below.')
+            .addDropdown(dropdown => dropdown
+                .addOption('path', 'Note path')
+                .addOption('obsidian-uri', 'Obsidian URI (obsidian://)')
+                .addOption('base-url', 'Published site link')
+                .setValue(profile.attributionLinks)
+                .onChange(async (value) => {
+                    profile.attributionLinks = value as AttributionLinks;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Keep Frontmatter')
+            .setDesc('What the Remove Metadata step keeps from the frontmatter.')
+            .addDropdown(dropdown => dropdown
+                .addOption('none', 'Nothing')
+                .addOption('all', 'All Keys')
+                .addOption('include', 'Only Listed Keys')
+                .addOption('exclude', 'All Except Listed Keys')
+                .setValue(profile.frontmatterKeep)
+                .onChange(async (value) => {
+                    profile.frontmatterKeep = value as FrontmatterKeep;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Frontmatter Keys')
+            .setDesc('Comma-separated keys for "Only Listed Keys" and "All Except Listed Keys". Example: "title, tags, date"')
+            .addText(text => text
+                .setPlaceholder('title, tags, date')
+                .setValue(profile.frontmatterKeys.join(', '))
+                .onChange(async (value) => {
+                    profile.frontmatterKeys = value.split(',').map(key => key.trim()).filter(key => key);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Frontmatter Format')
+            .setDesc('Write kept keys as YAML frontmatter, or as a readable header at the top of the note.')
+            .addDropdown(dropdown => dropdown
+                .addOption('yaml', 'YAML')
+                .addOption('header', 'Readable Header')
+                .setValue(profile.frontmatterFormat)
+                .onChange(async (value) => {
+                    profile.frontmatterFormat = value as FrontmatterFormat;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Drop Obsidian Keys')
+            .setDesc('Always drop keys that only mean something inside Obsidian, like aliases and cssclasses.')
+            .addToggle(toggle => toggle
+                .setValue(profile.dropObsidianFrontmatter)
+                .onChange(async (value) => {
+                    profile.dropObsidianFrontmatter = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Comments')
+            .setDesc('Remove %% comments %% in the Normalize Obsidian Syntax step.')
+            .addToggle(toggle => toggle
+                .setValue(profile.stripComments)
+                .onChange(async (value) => {
+                    profile.stripComments = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Highlights')
+            .setDesc('How the Normalize Obsidian Syntax step writes ==highlights==.')
+            .addDropdown(dropdown => dropdown
+                .addOption('keep', 'Keep As Is')
+                .addOption('mark', 'HTML (<mark>text</mark>)')
+                .addOption('bold', 'Bold (**text**)')
+                .setValue(profile.highlightFormat)
+                .onChange(async (value) => {
+                    profile.highlightFormat = value as HighlightFormat;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Callouts')
+            .setDesc('How the Normalize Obsidian Syntax step writes callouts like > [!note].')
+            .addDropdown(dropdown => dropdown
+                .addOption('keep', 'Keep As Is')
+                .addOption('label', 'Labelled Blockquote (> **NOTE:**)')
+                .setValue(profile.calloutFormat)
+                .onChange(async (value) => {
+                    profile.calloutFormat = value as CalloutFormat;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Inline Tags')
+            .setDesc('How the Normalize Obsidian Syntax step writes inline #tags.')
+            .addDropdown(dropdown => dropdown
+                .addOption('keep', 'Keep As Is')
+                .addOption('text', 'Plain Text (without #)')
+                .addOption('remove', 'Remove')
+                .setValue(profile.tagFormat)
+                .onChange(async (value) => {
+                    profile.tagFormat = value as TagFormat;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Dataview Fields')
+            .setDesc('How the Normalize Obsidian Syntax step writes Dataview inline fields (key:: value).')
+            .addDropdown(dropdown => dropdown
+                .addOption('keep', 'Keep As Is')
+                .addOption('text', 'Bold Label (**key:** value)')
+                .addOption('remove', 'Remove')
+                .setValue(profile.inlineFieldFormat)
+                .onChange(async (value) => {
+                    profile.inlineFieldFormat = value as InlineFieldFormat;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Attachment Embeds')
+            .setDesc('How embedded images, PDFs, audio and other non-note files are exported. Markdown links use ![name](path) for images and [name](path) for other files, with the path relative to the exported note. Files that can\'t be inlined as base64 get a placeholder.')
+            .addDropdown(dropdown => dropdown
+                .addOption('keep', 'Keep As Is')
+                .addOption('link', 'Markdown Link (![](path))')
+                .addOption('placeholder', 'Placeholder ([Attachment: name])')
+                .addOption('base64', 'Inline Images (base64)')
+                .setValue(profile.attachmentEmbeds)
+                .onChange(async (value) => {
+                    profile.attachmentEmbeds = value as AttachmentEmbedMode;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Link Format')
+            .setDesc('How the Rewrite Links step writes [[wikilinks]].')
+            .addDropdown(dropdown => dropdown
+                .addOption('text', 'Display Text Only')
+                .addOption('markdown', 'Markdown Link ([text](path.md))')
+                .addOption('obsidian-uri', 'Obsidian URI (obsidian://open)')
+                .addOption('base-url', 'Published Site URL')
+                .setValue(profile.linkFormat)
+                .onChange(async (value) => {
+                    profile.linkFormat = value as LinkFormat;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Published Site URL')
+            .setDesc('Base URL of your published vault, used by the "Published Site URL" link format. Example: "https://publish.obsidian.md/my-vault"')
+            .addText(text => text
+                .setPlaceholder('https://publish.obsidian.md/my-vault')
+                .setValue(profile.linkBaseUrl)
+                .onChange(async (value) => {
+                    profile.linkBaseUrl = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        // Clipboard settings for this profile
+        containerEl.createEl('h3', { text: 'Clipboard Settings' });
+
+        new Setting(containerEl)
+            .setName('Copy as Formatted Text')
+            .setDesc('Also put rendered HTML on the clipboard, so pasting into apps like Google Docs, Outlook or Slack keeps headings, lists, tables and code blocks. Apps that only accept plain text still get the markdown.')
+            .addToggle(toggle => toggle
+                .setValue(profile.copyAsHtml)
+                .onChange(async (value) => {
+                    profile.copyAsHtml = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Token Budget')
+            .setDesc('Optional: Approximate token limit for copied content (about four characters per token). When a copy is over the budget you can truncate it, drop embeds, or cancel. Leave empty or 0 for no limit.')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(profile.tokenBudget > 0 ? String(profile.tokenBudget) : '')
+                .onChange(async (value) => {
+                    const budget = parseInt(value, 10);
+                    profile.tokenBudget = isNaN(budget) || budget < 0 ? 0 : budget;
+                    await this.plugin.saveSettings();
+                }));
+
+        // File settings for this profile
+        containerEl.createEl('h3', { text: 'File Settings' });
+
+        new Setting(containerEl)
+            .setName('Save Format')
+            .setDesc('Default format when saving to a file. You can change it in the save dialog.')
+            .addDropdown(dropdown => dropdown
+                .addOption('markdown', 'Markdown (.md)')
+                .addOption('html', 'Standalone HTML (.html)')
+                .addOption('text', 'Plain Text (.txt)')
+                .setValue(profile.saveFormat)
+                .onChange(async (value) => {
+                    profile.saveFormat = value as SaveFormat;
+                    updatePathPreview();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('File Name Prefix')
+            .setDesc('Prefix to add to exported file names (e.g., "(Plain) "). You can use {{basename}}, {{folder}}, {{profile}}, {{date}}, {{date:YYYY-MM-DD}} and {{fm.title}} for frontmatter values.')
+            .addText(text => text
+                .setPlaceholder('(Plain) ')
+                .setValue(profile.fileNamePrefix)
+                .onChange(async (value) => {
+                    profile.fileNamePrefix = value;
+                    updatePathPreview();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Default Save Location')
+            .setDesc('Optional: Set a default folder for saved files, or a full file path ending in .md, .html or .txt (the extension is changed to match the save format). Leave empty to be prompted each time. Supports the same templates, e.g. "exports/{{folder}}"')
+            .addText(text => text
+                .setPlaceholder('exports/')
+                .setValue(profile.defaultSaveLocation)
+                .onChange(async (value) => {
+                    profile.defaultSaveLocation = value;
+                    updatePathPreview();
+                    await this.plugin.saveSettings();
+                }));
+
+        // Preview the templates against the active note
+        const pathPreviewSetting = new Setting(containerEl)
+            .setName('Save Path Preview');
+        const updatePathPreview = () => {
+            const file = this.app.workspace.getActiveFile();
+            const target = this.plugin.getSaveTarget(this.plugin.getTemplateValues(file, profile), profile, profile.saveFormat);
+            pathPreviewSetting.setDesc(`${file ? `For "${file.path}"` : 'Without an open note'}: ${target.targetPath || `${target.fileName} (you will be asked where to save)`}`);
+        };
+        updatePathPreview();
+
+        new Setting(containerEl)
+            .setName('Save Outside Vault')
+            .setDesc('Desktop only: Save to a folder on your computer instead of the vault, e.g. a shared project folder. On mobile, files are saved in the vault.')
+            .addToggle(toggle => toggle
+                .setValue(profile.saveOutsideVault)
+                .onChange(async (value) => {
+                    profile.saveOutsideVault = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('External Save Folder')
+            .setDesc('Absolute folder path used by Save Outside Vault. Missing folders are created. You can use {{vault}}, {{basename}}, {{folder}}, {{profile}}, {{fm.key}}, {{date}} and {{date:YYYY-MM}}. Example: "~/Projects/{{vault}}/exports"')
+            .addText(text => text
+                .setPlaceholder('~/exports/{{vault}}')
+                .setValue(profile.externalSaveDirectory)
+                .onChange(async (value) => {
+                    profile.externalSaveDirectory = value;
+                    await this.plugin.saveSettings();
+                }));
+
         new Setting(containerEl)
-            .setName('Remove Metadata')
-            .setDesc('Remove metadata information (marked by three dashes at the top of the file) when copying markdown content. This includes any front matter such as dates, tags, etc.')
+            .setName('When File Exists')
+            .setDesc('What to do when the file you save to already exists. Appending adds the export to the end with a dated separator, which builds a running log.')
+            .addDropdown(dropdown => dropdown
+                .addOption('overwrite', 'Overwrite it')
+                .addOption('suffix', 'Save a numbered copy, e.g. "Note (2).md"')
+                .addOption('timestamp', 'Save a timestamped copy')
+                .addOption('append', 'Append to it')
+                .setValue(profile.conflictStrategy)
+                .onChange(async (value) => {
+                    profile.conflictStrategy = value as ConflictStrategy;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Ask Before Saving Over Files')
+            .setDesc('Ask for confirmation before applying the action above. Turn off to save without a prompt.')
             .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.removeMetadata)
+                .setValue(profile.confirmConflicts)
+                .onChange(async (value) => {
+                    profile.confirmConflicts = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Copy with context settings
+        containerEl.createEl('h3', { text: 'Context Bundle Settings' });
+
+        new Setting(containerEl)
+            .setName('Link Hops')
+            .setDesc('How many links away from the active note "Copy active note with linked notes" goes. 1 means only directly linked notes.')
+            .addSlider(slider => slider
+                .setLimits(1, 5, 1)
+                .setValue(this.plugin.settings.contextHops)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.contextHops = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Links to Follow')
+            .setDesc('Follow links from the note, links to the note (backlinks), or both.')
+            .addDropdown(dropdown => dropdown
+                .addOption('outgoing', 'Outgoing Links')
+                .addOption('backlinks', 'Backlinks')
+                .addOption('both', 'Both')
+                .setValue(this.plugin.settings.contextLinkDirection)
+                .onChange(async (value) => {
+                    this.plugin.settings.contextLinkDirection = value as ContextLinkDirection;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Note Order')
+            .setDesc('Order of the linked notes. The active note always comes first.')
+            .addDropdown(dropdown => dropdown
+                .addOption('distance', 'Closest First')
+                .addOption('alphabetical', 'Alphabetical by Path')
+                .addOption('modified', 'Recently Modified First')
+                .setValue(this.plugin.settings.contextOrder)
                 .onChange(async (value) => {
-                    this.plugin.settings.removeMetadata = value;
+                    this.plugin.settings.contextOrder = value as ContextOrder;
                     await this.plugin.saveSettings();
                 }));
 
         new Setting(containerEl)
-            .setName('Remove Block IDs')
-            .setDesc('Remove block reference IDs (^blockId) from the exported content.')
+            .setName('Skip Embedded Notes')
+            .setDesc('Leave out linked notes that another note in the bundle already embeds in full, so their content isn\'t included twice. Only applies when the default profile resolves embeds, and only to embeds within its maximum embed depth.')
             .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.removeBlockIds)
+                .setValue(this.plugin.settings.contextSkipEmbedded)
                 .onChange(async (value) => {
-                    this.plugin.settings.removeBlockIds = value;
+                    this.plugin.settings.contextSkipEmbedded = value;
                     await this.plugin.saveSettings();
                 }));
 
         // Copy button settings
         containerEl.createEl('h3', { text: 'Copy Button Settings' });
 
+        new Setting(containerEl)
+            .setName('Show Size in Status Bar')
+            .setDesc('Show the approximate token count of the last copy in the status bar.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showStatsInStatusBar)
+                .onChange(async (value) => {
+                    this.plugin.settings.showStatsInStatusBar = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.updateStatusBar();
+                }));
+
         new Setting(containerEl)
             .setName('Copy Button Position')
             .setDesc('Choose where to display the copy button.')
@@ -975,6 +3031,20 @@ class EditorToClipboardSettingTab extends PluginSettingTab {
                     this.plugin.updateButtonLocations();
                 }));
 
+        new Setting(containerEl)
+            .setName('Copy Button Mode')
+            .setDesc('Choose what the copy button copies.')
+            .addDropdown(dropdown => dropdown
+                .addOption('note', 'Whole Note')
+                .addOption('selection', 'Selection')
+                .addOption('section', 'Heading Section Under Cursor')
+                .addOption('list', 'List Under Cursor')
+                .setValue(this.plugin.settings.copyButtonScope)
+                .onChange(async (value) => {
+                    this.plugin.settings.copyButtonScope = value as ExportScope;
+                    await this.plugin.saveSettings();
+                }));
+
         // Save button settings
         containerEl.createEl('h3', { text: 'Save Button Settings' });
 
@@ -999,24 +3069,16 @@ class EditorToClipboardSettingTab extends PluginSettingTab {
                 }));
 
         new Setting(containerEl)
-            .setName('File Name Prefix')
-            .setDesc('Prefix to add to exported file names (e.g., "(Plain) ")')
-            .addText(text => text
-                .setPlaceholder('(Plain) ')
-                .setValue(this.plugin.settings.fileNamePrefix)
-                .onChange(async (value) => {
-                    this.plugin.settings.fileNamePrefix = value;
-                    await this.plugin.saveSettings();
-                }));
-
-        new Setting(containerEl)
-            .setName('Default Save Location')
-            .setDesc('Optional: Set a default save location for files. Leave empty to be prompted each time. Example: "exports/"')
-            .addText(text => text
-                .setPlaceholder('exports/')
-                .setValue(this.plugin.settings.defaultSaveLocation)
+            .setName('Save Button Mode')
+            .setDesc('Choose what the save button saves.')
+            .addDropdown(dropdown => dropdown
+                .addOption('note', 'Whole Note')
+                .addOption('selection', 'Selection')
+                .addOption('section', 'Heading Section Under Cursor')
+                .addOption('list', 'List Under Cursor')
+                .setValue(this.plugin.settings.saveButtonScope)
                 .onChange(async (value) => {
-                    this.plugin.settings.defaultSaveLocation = value;
+                    this.plugin.settings.saveButtonScope = value as ExportScope;
                     await this.plugin.saveSettings();
                 }));
 
@@ -0,0 +1,232 @@
+// File format written by the save command
+export type SaveFormat = 'markdown' | 'html' | 'text';
+
+export const SAVE_FORMAT_EXTENSIONS: Record<SaveFormat, string> = {
+    markdown: '.md',
+    html: '.html',
+    text: '.txt'
+};
+
+// Values available to file name and path templates
+export interface TemplateValues {
+    vaultName: string;
+    basename: string; // Name of the exported note, empty if there is none
+    folder: string; // Folder of the exported note, empty for the vault root
+    profileName: string;
+    frontmatter: Record<string, unknown>;
+    formatDate: (format: string) => string; // Formats the current date with a moment.js format
+}
+
+// Characters that can't be used in file names on some platforms or that break Obsidian links
+const ILLEGAL_FILE_NAME_CHARACTERS = /[\\/:*?"<>|#^[\]]/g;
+
+/**
+ * Replaces characters that are illegal in file names with dashes
+ */
+export function sanitizeFileName(name: string): string {
+    return name.replace(ILLEGAL_FILE_NAME_CHARACTERS, '-').replace(/[. ]+$/, '').trim();
+}
+
+/**
+ * Sanitizes every segment of a vault path, keeping the folder separators.
+ * Like Obsidian's normalizePath, backslashes separate folders and repeated or outer slashes are dropped.
+ */
+export function sanitizeVaultPath(path: string): string {
+    return path.replace(/[\u00A0\u202F]/g, ' ').normalize('NFC')
+        .split(/[\\/]+/).map(sanitizeFileName).filter(segment => segment).join('/');
+}
+
+/**
+ * Fills in path template tokens:
+ * {{vault}}, {{basename}}, {{folder}}, {{profile}}, {{date}}, {{date:FORMAT}} (moment.js format)
+ * and {{fm.key}} for frontmatter values.
+ * Token values are made safe for file names, except {{folder}} which keeps its slashes.
+ */
+export function applyPathTemplate(template: string, values: TemplateValues): string {
+    return template.replace(/\{\{\s*([a-zA-Z][\w.-]*)(?::([^}]*))?\s*\}\}/g, (match, token: string, format: string | undefined) => {
+        const lowerToken = token.toLowerCase();
+
+        if (lowerToken.startsWith('fm.')) {
+            const key = token.slice(3);
+            const value = values.frontmatter[key] ?? values.frontmatter[Object.keys(values.frontmatter)
+                .find(frontmatterKey => frontmatterKey.toLowerCase() === key.toLowerCase()) ?? ''];
+            const text = Array.isArray(value) ? value.join(', ') : (value === undefined || value === null ? '' : String(value));
+            return text.replace(ILLEGAL_FILE_NAME_CHARACTERS, '-');
+        }
+
+        switch (lowerToken) {
+            case 'vault':
+                return values.vaultName.replace(ILLEGAL_FILE_NAME_CHARACTERS, '-');
+            case 'basename':
+                return values.basename;
+            case 'folder':
+                return values.folder;
+            case 'profile':
+                return values.profileName.replace(ILLEGAL_FILE_NAME_CHARACTERS, '-');
+            case 'date':
+                return values.formatDate(format || 'YYYY-MM-DD').replace(ILLEGAL_FILE_NAME_CHARACTERS, '-');
+            default:
+                return match;
+        }
+    });
+}
+
+/**
+ * Finds a free path next to an existing file, either "name (2).md" or a timestamped "name 2024-01-31 142500.md"
+ * @param path The path that is already taken
+ * @param strategy 'suffix' or 'timestamp'
+ * @param exists Checks whether a path is taken
+ * @param formatDate Formats the current date with a moment.js format
+ */
+export function findFreePath(path: string, strategy: 'suffix' | 'timestamp', exists: (path: string) => boolean, formatDate: (format: string) => string): string {
+    const extensionMatch = path.match(/(\.[^./\\]+)$/);
+    const extension = extensionMatch ? extensionMatch[1] : '';
+    let base = path.slice(0, path.length - extension.length);
+
+    if (strategy === 'timestamp') {
+        base = `${base} ${formatDate('YYYY-MM-DD HHmmss')}`;
+        if (!exists(base + extension)) {
+            return base + extension;
+        }
+    }
+
+    let counter = 2;
+    while (exists(`${base} (${counter})${extension}`)) {
+        counter++;
+    }
+    return `${base} (${counter})${extension}`;
+}
+
+/**
+ * Adds an export to the end of an existing export file, separated by the export date
+ * @param existing Current content of the file
+ * @param addition The new export, already converted to the file's format
+ * @param format Format of both contents
+ * @param formatDate Formats the current date with a moment.js format
+ */
+export function appendExport(existing: string, addition: string, format: SaveFormat, formatDate: (format: string) => string): string {
+    const date = formatDate('YYYY-MM-DD HH:mm');
+
+    if (format === 'html') {
+        // Only the body of the new document is added, before the existing closing tag
+        const body = addition.match(/<body>([\s\S]*)<\/body>/)?.[1] ?? addition;
+        const separator = `<hr>\n<p><em>Exported ${date}</em></p>\n`;
+        const closingIndex = existing.lastIndexOf('</body>');
+        if (closingIndex === -1) {
+            return `${existing}\n${separator}${body}`;
+        }
+        return `${existing.slice(0, closingIndex)}${separator}${body}\n${existing.slice(closingIndex)}`;
+    }
+
+    const separator = format === 'text'
+        ? `----- Exported ${date} -----`
+        : `---\n\n*Exported ${date}*`;
+    return `${existing.replace(/\s+$/, '')}\n\n${separator}\n\n${addition}`;
+}
+
+// Styles embedded in standalone HTML exports, including print rules for saving as PDF
+const STANDALONE_HTML_CSS = `
+body { max-width: 46em; margin: 2em auto; padding: 0 1em; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; line-height: 1.6; color: #222; }
+h1, h2, h3, h4, h5, h6 { line-height: 1.25; margin: 1.4em 0 0.6em; }
+a { color: #0b62c4; }
+img { max-width: 100%; }
+blockquote { margin: 1em 0; padding: 0 1em; border-left: 4px solid #ccc; color: #555; }
+code { font-family: SFMono-Regular, Consolas, "Liberation Mono", Menlo, monospace; font-size: 0.9em; background: #f4f4f4; padding: 0.1em 0.3em; border-radius: 3px; }
+pre { background: #f4f4f4; padding: 1em; overflow-x: auto; border-radius: 4px; }
+pre code { padding: 0; background: none; }
+table { border-collapse: collapse; margin: 1em 0; }
+th, td { border: 1px solid #ccc; padding: 0.4em 0.8em; }
+th { background: #f4f4f4; }
+mark { background: #fff3a3; }
+hr { border: none; border-top: 1px solid #ccc; margin: 2em 0; }
+@media print {
+    body { max-width: none; margin: 0; color: #000; }
+    a { color: inherit; }
+    pre, blockquote, table, img { page-break-inside: avoid; }
+    h1, h2, h3, h4, h5, h6 { page-break-after: avoid; }
+}
+`;
+
+/**
+ * Strips Markdown syntax, leaving readable plain text
+ */
+export function markdownToPlainText(content: string): string {
+    const lines = content.split('\n');
+    const result: string[] = [];
+    let fence: string | null = null;
+
+    for (const line of lines) {
+        const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+
+        // Keep code as it is, just without the fences
+        if (fence !== null) {
+            if (fenceMatch && fenceMatch[1][0] === fence[0] && line.trim() === fenceMatch[1] && fenceMatch[1].length >= fence.length) {
+                fence = null;
+            } else {
+                result.push(line);
+            }
+            continue;
+        }
+        if (fenceMatch) {
+            fence = fenceMatch[1];
+            continue;
+        }
+
+        // Table separator rows and horizontal rules carry no text
+        if (/^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)+\|?\s*$/.test(line)) {
+            continue;
+        }
+        if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+            result.push('');
+            continue;
+        }
+
+        let text = line
+            .replace(/^(\s*)#{1,6}\s+/, '$1') // Headings
+            .replace(/^(\s*)(>\s?)+/, '$1') // Blockquotes
+            .replace(/^(\s*)([-*+]|\d+\.)\s+\[[ xX]\]\s+/, '$1$2 ') // Task checkboxes
+            .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // Images
+            .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1') // Links
+            .replace(/!?\[\[([^\]|]*)\|([^\]]*)\]\]/g, '$2') // Wikilinks with display text
+            .replace(/!?\[\[([^\]]*)\]\]/g, '$1') // Wikilinks
+            .replace(/<\/?[a-zA-Z][^>]*>/g, '') // HTML tags
+            .replace(/\*\*(?=\S)(.+?)\*\*|(?<!\w)__(?=\S)(.+?)__(?!\w)/g, '$1$2') // Bold
+            .replace(/\*(?=\S)(.+?)\*|(?<!\w)_(?=\S)(.+?)_(?!\w)/g, '$1$2') // Italics
+            .replace(/~~(.+?)~~/g, '$1') // Strikethrough
+            .replace(/==(.+?)==/g, '$1') // Highlights
+            .replace(/`([^`]+)`/g, '$1'); // Inline code
+
+        // Table rows become tab-separated cells
+        if (/^\s*\|.*\|\s*$/.test(text)) {
+            text = text.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim()).join('\t');
+        }
+
+        result.push(text);
+    }
+
+    return result.join('\n');
+}
+
+/**
+ * Wraps rendered HTML in a standalone document with its own styles, so it can be opened or printed anywhere
+ * @param title Document title
+ * @param body The rendered note
+ */
+export function buildHtmlDocument(title: string, body: string): string {
+    const escapedTitle = title.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapedTitle}</title>
+<style>${STANDALONE_HTML_CSS}</style>
+</head>
+<body>
+<article>
+${body}
+</article>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,101 @@
+import { LIST_ITEM_PATTERN } from './blocks';
+import { findHeadings } from './exporter';
+
+/**
+ * Finds the heading section a line belongs to: the last heading at or above the line,
+ * up to the next heading of the same or a higher level. Headings in code blocks don't count.
+ * @param content Full text of the note, as it is in the editor
+ * @param line Zero-based line number, usually the cursor's
+ * @returns The section including its heading line, or null if there is no heading above the line
+ */
+export function getSectionAt(content: string, line: number): string | null {
+    const lines = content.split('\n');
+    const headings = findHeadings(lines);
+
+    let headingIndex = -1;
+    for (let i = 0; i < headings.length; i++) {
+        if (headings[i].position.start.line <= line) {
+            headingIndex = i;
+        }
+    }
+    if (headingIndex === -1) {
+        return null;
+    }
+
+    const heading = headings[headingIndex];
+    const next = headings.slice(headingIndex + 1).find(candidate => candidate.level <= heading.level);
+    const endLine = next ? next.position.start.line : lines.length;
+
+    return lines.slice(heading.position.start.line, endLine).join('\n').trim();
+}
+
+/**
+ * Finds the list a line belongs to, with all of its items, nested items and continuation lines.
+ * Blank lines between items (a loose list) keep the list going.
+ * @param content Full text of the note, as it is in the editor
+ * @param line Zero-based line number, usually the cursor's
+ * @returns The whole list, or null if the line isn't part of one
+ */
+export function getListAt(content: string, line: number): string | null {
+    const lines = content.split('\n');
+    let fence: string | null = null;
+
+    for (let start = 0; start < lines.length; start++) {
+        // Lists written inside code blocks aren't lists
+        const fenceMatch = lines[start].match(/^\s*(`{3,}|~{3,})/);
+        if (fenceMatch) {
+            if (!fence) {
+                fence = fenceMatch[1];
+            } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+                fence = null;
+            }
+            continue;
+        }
+        if (fence || !LIST_ITEM_PATTERN.test(lines[start])) {
+            continue;
+        }
+
+        const end = getListEnd(lines, start);
+        if (line >= start && line <= end) {
+            return lines.slice(start, end + 1).join('\n');
+        }
+        if (start > line) {
+            return null;
+        }
+        start = end;
+    }
+
+    return null;
+}
+
+/**
+ * Finds the last line of the list that starts at the given line
+ */
+function getListEnd(lines: string[], start: number): number {
+    let end = start;
+
+    for (let i = start + 1; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (!line.trim()) {
+            // A blank line only continues the list if an item or indented text follows
+            let next = i + 1;
+            while (next < lines.length && !lines[next].trim()) {
+                next++;
+            }
+            if (next < lines.length && (LIST_ITEM_PATTERN.test(lines[next]) || /^\s+\S/.test(lines[next]))) {
+                i = next - 1;
+                continue;
+            }
+            break;
+        }
+
+        // Unindented text right below an item continues it, unless it starts another kind of block
+        if (!LIST_ITEM_PATTERN.test(line) && !/^\s/.test(line) && /^(#{1,6}\s|>|`{3,}|~{3,}|\|)/.test(line)) {
+            break;
+        }
+        end = i;
+    }
+
+    return end;
+}
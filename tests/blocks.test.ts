@@ -0,0 +1,123 @@
+import { describe, expect, test } from 'bun:test';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { CachedMetadata } from 'obsidian';
+import { resolveBlock } from '../blocks';
+
+const blockIdTests = readFileSync(join(__dirname, '..', 'TestingData', 'Block ID Tests.md'), 'utf8');
+
+describe('resolveBlock on TestingData/Block ID Tests.md', () => {
+    test('single line', () => {
+        expect(resolveBlock(blockIdTests, '176373')).toBe('A single line is a block');
+    });
+
+    test('multi-line paragraph', () => {
+        expect(resolveBlock(blockIdTests, '9a5cbc')).toBe('Consecutive lines are a block\nblah\nthe id for the block goes here →');
+    });
+
+    test('list item with nested items', () => {
+        expect(resolveBlock(blockIdTests, '965586', null, true)).toBe('- list\n\t- intented list items get a blockid, it seems');
+        // Only the referenced ID is removed unless asked to remove them all
+        expect(resolveBlock(blockIdTests, '965586')).toBe('- list\n\t- intented list items get a blockid, it seems ^1cc453');
+    });
+
+    test('nested list item', () => {
+        expect(resolveBlock(blockIdTests, '1cc453')).toBe('- intented list items get a blockid, it seems');
+    });
+
+    test('whole list referenced by a standalone ID', () => {
+        expect(resolveBlock(blockIdTests, 'af23d6', null, true)).toBe(
+            '- list\n' +
+            '\t- intented list items get a blockid, it seems\n' +
+            '- list2\n' +
+            '- The whole list can get a block id by placing it below, but we don’t need to worry about that….'
+        );
+    });
+
+    test('numbered list item', () => {
+        expect(resolveBlock(blockIdTests, '3e2e13')).toBe('3. only this item');
+    });
+
+    test('lazy continuation line belongs to the list item above it', () => {
+        expect(resolveBlock(blockIdTests, 'b3584b')).toBe(
+            '4. what about some weird thing like this\n' +
+            'hi, I’m not a list item. But it looks like I’m considered part of the block defined by list item 4'
+        );
+    });
+
+    test('blockquote', () => {
+        expect(resolveBlock(blockIdTests, '8954ff')).toBe('> Blockquotes get a block id like this:');
+    });
+
+    test('nested blockquote', () => {
+        expect(resolveBlock(blockIdTests, '31ba02')).toBe('> What about\n> > Nested blockquotes?\n>\n> With some “new lines”? Like this:');
+    });
+
+    test('fenced code block', () => {
+        expect(resolveBlock(blockIdTests, '6a402d')).toBe('```\nCode blocks, too\n```');
+    });
+
+    test('indented code block keeps its indentation', () => {
+        expect(resolveBlock(blockIdTests, 'fbd211')).toBe('\tIndented codeblock\n\t\twow\n\tSo cool.');
+    });
+
+    test('table', () => {
+        const table = resolveBlock(blockIdTests, '4556e2');
+        expect(table?.split('\n')).toHaveLength(5);
+        expect(table?.startsWith('| Option | Description |')).toBe(true);
+        expect(table?.endsWith('| ext    | extension to be used for dest files. |')).toBe(true);
+    });
+
+    test('footnote', () => {
+        expect(resolveBlock(blockIdTests, '11ede9')).toBe('[^first]: What about footnotes? Why would anyone do this?');
+    });
+
+    test('comment with blank lines', () => {
+        expect(resolveBlock(blockIdTests, 'ef97d6')).toBe('%%\n\nWhat about comments?\n\n%%');
+    });
+
+    test('unknown ID', () => {
+        expect(resolveBlock(blockIdTests, 'missing')).toBeNull();
+    });
+});
+
+describe('resolveBlock with a metadata cache', () => {
+    const position = (start: number, end: number) => ({
+        start: { line: start, col: 0, offset: 0 },
+        end: { line: end, col: 0, offset: 0 }
+    });
+
+    test('uses the full range of a cached paragraph', () => {
+        const content = 'First line\nsecond line ^para';
+        const cache: CachedMetadata = {
+            blocks: { para: { id: 'para', position: position(0, 1) } }
+        };
+        expect(resolveBlock(content, 'para', cache)).toBe('First line\nsecond line');
+    });
+
+    test('includes the subtree of a cached list item', () => {
+        const content = '- parent ^item\n\t- child\n\t\t- grandchild\n- sibling';
+        const cache: CachedMetadata = {
+            blocks: { item: { id: 'item', position: position(0, 0) } },
+            listItems: [
+                { parent: -1, position: position(0, 0) },
+                { parent: 0, position: position(1, 1) },
+                { parent: 1, position: position(2, 2) },
+                { parent: -1, position: position(3, 3) }
+            ]
+        };
+        expect(resolveBlock(content, 'item', cache)).toBe('- parent\n\t- child\n\t\t- grandchild');
+    });
+
+    test('a standalone ID refers to the section above it', () => {
+        const content = '| a | b |\n| - | - |\n| 1 | 2 |\n\n^table';
+        const cache: CachedMetadata = {
+            blocks: { table: { id: 'table', position: position(4, 4) } },
+            sections: [
+                { type: 'table', position: position(0, 2) },
+                { type: 'paragraph', position: position(4, 4) }
+            ]
+        };
+        expect(resolveBlock(content, 'table', cache)).toBe('| a | b |\n| - | - |\n| 1 | 2 |');
+    });
+});
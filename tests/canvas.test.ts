@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'bun:test';
+import { canvasToMarkdown, parseCanvas } from '../canvas';
+
+// Converts canvas JSON like readExportSource does, null if it can't be read
+const toMarkdown = (json: string) => {
+    const canvas = parseCanvas(json);
+    return canvas ? canvasToMarkdown(canvas) : null;
+};
+
+describe('canvas', () => {
+    test('reads cards top to bottom, left to right, with groups as headings', () => {
+        const markdown = toMarkdown(JSON.stringify({
+            nodes: [
+                { id: 'link', type: 'link', url: 'https://example.com', x: 0, y: 400, width: 200, height: 100 },
+                { id: 'group', type: 'group', label: 'Research', x: 0, y: 0, width: 600, height: 300 },
+                { id: 'right', type: 'text', text: 'Right card', x: 300, y: 50, width: 200, height: 100 },
+                { id: 'note', type: 'file', file: 'Folder/Note.md', subpath: '#Heading', x: 50, y: 50, width: 200, height: 100 },
+                { id: 'inner', type: 'group', label: 'Details', x: 20, y: 180, width: 300, height: 100 },
+                { id: 'image', type: 'file', file: 'photo.png', x: 40, y: 200, width: 100, height: 50 }
+            ],
+            edges: []
+        }));
+
+        expect(markdown).toBe([
+            '## Research',
+            '![[Folder/Note#Heading]]',
+            'Right card',
+            '### Details',
+            '![[photo.png]]',
+            '[https://example.com](https://example.com)'
+        ].join('\n\n'));
+    });
+
+    test('reads an empty canvas as no content', () => {
+        expect(toMarkdown('{}')).toBe('');
+    });
+
+    test('rejects empty and malformed files', () => {
+        expect(parseCanvas('')).toBeNull();
+        expect(parseCanvas('{"nodes": [')).toBeNull();
+        expect(parseCanvas('[]')).toBeNull();
+        expect(parseCanvas('{"nodes": 5}')).toBeNull();
+    });
+
+    test('skips cards that are missing their fields', () => {
+        const markdown = toMarkdown(JSON.stringify({
+            nodes: [
+                { type: 'text' },
+                { id: 'file', type: 'file', x: 0, y: 0, width: 100, height: 100 },
+                { id: 'link', type: 'link', url: 'https://example.com' },
+                { id: 'text', type: 'text', text: 'Kept', x: 0, y: 200, width: 100, height: 100 }
+            ]
+        }));
+        expect(markdown).toBe('Kept');
+    });
+});
@@ -0,0 +1,181 @@
+import { describe, expect, test } from 'bun:test';
+import { join } from 'path';
+import { cleanAllBlockIds, getHeadingContent, preserveNestedLists, resolveEmbeds } from '../exporter';
+import { loadFixtureVault, MemoryVault } from './memoryVault';
+
+const basicVault = loadFixtureVault(join(__dirname, 'fixtures', 'basic-vault'));
+const testingData = loadFixtureVault(join(__dirname, '..', 'TestingData'));
+
+const exportNote = async (vault: MemoryVault, path: string, maxEmbedDepth = 5) =>
+    resolveEmbeds(vault, await vault.read(path), path, { maxEmbedDepth });
+
+// Embeds on their own line keep the line breaks around them, so compare without extra blank lines
+const tidy = (content: string) => content.replace(/\n{3,}/g, '\n\n').trim();
+
+describe('embeds', () => {
+    test('expands heading sections, list blocks and nested notes', async () => {
+        expect(tidy(await exportNote(basicVault, 'Index.md'))).toBe(
+            '# Index\n\n' +
+            '## Second\n\nSecond text.\n\n### Third\n\nThird text.\n\n' +
+            '- Groceries\n\t- Milk\n\t- Bread\n\n' +
+            'Nested note with Deep content.\n\n' +
+            'See [[Headings]].'
+        );
+    });
+
+    test('stops at the maximum depth', async () => {
+        const content = await exportNote(basicVault, 'Index.md', 1);
+        expect(content).toContain('Nested note with ![[Deep]]');
+    });
+
+    test('skips cyclic embeds', async () => {
+        expect(tidy(await exportNote(basicVault, 'Cycle A.md'))).toBe('A embeds B embeds [Cyclic embed skipped: Cycle A]');
+    });
+
+    test('skips a section that embeds itself with different casing', async () => {
+        const vault = new MemoryVault({ 'Note.md': '![[Loop#Top]]', 'Loop.md': '# Top\n![[Loop#top]]' });
+        expect(tidy(await exportNote(vault, 'Note.md'))).toBe('# Top\n[Cyclic embed skipped: Loop#top]');
+    });
+
+    test('reports missing notes and headings', async () => {
+        const vault = new MemoryVault({ 'Note.md': '![[Missing]] and ![[Headings#Nowhere]]', 'Headings.md': '# Somewhere' });
+        expect(await exportNote(vault, 'Note.md')).toBe('[File not found: Missing] and [Content not found: Headings#Nowhere]');
+    });
+
+    test('leaves embeds in code untouched', async () => {
+        const content = await basicVault.read('Code.md');
+        expect(await exportNote(basicVault, 'Code.md')).toBe(content);
+    });
+
+    test('keeps attachments unless a resolver is given', async () => {
+        expect(await exportNote(basicVault, 'Attachment.md')).toBe('Picture: ![[attachments/photo.png]]\n');
+
+        const content = await resolveEmbeds(basicVault, await basicVault.read('Attachment.md'), 'Attachment.md', {
+            maxEmbedDepth: 5,
+            resolveAttachment: async (file) => `[Attachment: ${file.path}]`
+        });
+        expect(content).toBe('Picture: [Attachment: attachments/photo.png]\n');
+    });
+
+    test('resolves blocks from TestingData', async () => {
+        const vault = new MemoryVault({ ...Object.fromEntries(testingData.files), 'Note.md': '![[Block ID Tests#^31ba02]]' });
+        expect(await exportNote(vault, 'Note.md')).toBe('> What about\n> > Nested blockquotes?\n>\n> With some “new lines”? Like this:');
+    });
+
+    test('removes the IDs of nested blocks when asked to', async () => {
+        const vault = new MemoryVault({ 'Src.md': '- parent ^item\n\t- child ^kid\n\t- other ^x2', 'Note.md': '![[Src#^item]]' });
+        const content = await resolveEmbeds(vault, await vault.read('Note.md'), 'Note.md', { maxEmbedDepth: 5, removeBlockIds: true });
+        expect(content).toBe('- parent\n\t- child\n\t- other');
+    });
+});
+
+describe('headings', () => {
+    test('ends the section at the next heading of the same level', () => {
+        expect(getHeadingContent('# A\n\ntext\n\n## B\n\nmore\n\n# C', 'a')).toBe('# A\n\ntext\n\n## B\n\nmore');
+    });
+
+    test('ignores heading-like lines in code blocks', () => {
+        expect(getHeadingContent('## A\n\n```\n## not a heading\n```\n\n## B', 'A')).toBe('## A\n\n```\n## not a heading\n```');
+    });
+});
+
+describe('block IDs and lists', () => {
+    test('removes block IDs outside of code', () => {
+        expect(cleanAllBlockIds('Text ^abc123\n- item ^def\n`code ^keep`\n```\nfenced ^keep\n```'))
+            .toBe('Text\n- item\n`code ^keep`\n```\nfenced ^keep\n```');
+    });
+
+    test('keeps nested list indentation', async () => {
+        const lists = await basicVault.read('Lists.md');
+        expect(preserveNestedLists(lists)).toBe(lists);
+    });
+});
+
+describe('heading paths', () => {
+    const note = [
+        '# Project A',
+        '## Notes',
+        'A notes',
+        '# Project B',
+        '## Notes',
+        'B notes',
+        '### Details',
+        'B details',
+        '## Intro to [[Linked Note|Links]] and **bold**',
+        'Formatted'
+    ].join('\n');
+
+    test('picks the first heading without a path', () => {
+        expect(getHeadingContent(note, 'Notes')).toBe('## Notes\nA notes');
+    });
+
+    test('disambiguates duplicate headings with a nested path', () => {
+        expect(getHeadingContent(note, 'Project B#Notes')).toBe('## Notes\nB notes\n### Details\nB details');
+        expect(getHeadingContent(note, 'Project B#Details')).toBe('### Details\nB details');
+        expect(getHeadingContent(note, 'Project A#Details')).toBeNull();
+    });
+
+    test('matches headings with links and formatting', () => {
+        expect(getHeadingContent(note, 'Intro to Links and bold')).toBe('## Intro to [[Linked Note|Links]] and **bold**\nFormatted');
+    });
+
+    test('drops or fits the heading line of embedded sections', async () => {
+        const vault = new MemoryVault({
+            'Host.md': '# Host\n### Deep\n![[Source#Project B#Notes]]',
+            'Source.md': note
+        });
+        const content = await vault.read('Host.md');
+
+        expect(tidy(await resolveEmbeds(vault, content, 'Host.md', { maxEmbedDepth: 5, headingLine: 'drop' })))
+            .toBe('# Host\n### Deep\n\nB notes\n### Details\nB details');
+        expect(tidy(await resolveEmbeds(vault, content, 'Host.md', { maxEmbedDepth: 5, headingLine: 'fit' })))
+            .toBe('# Host\n### Deep\n\n#### Notes\nB notes\n##### Details\nB details');
+    });
+});
+
+describe('embedded headings and markers', () => {
+    const vault = new MemoryVault({
+        'Host.md': '# Host\n#### Subsection\n![[Source#Section]]\nInline ![[Source#^quote]] text',
+        'Source.md': '## Section\nText\n### Part\nMore\n## Other\nA quote ^quote'
+    });
+
+    test('fits embedded headings below the host heading', async () => {
+        const content = await resolveEmbeds(vault, await vault.read('Host.md'), 'Host.md', { maxEmbedDepth: 5, shiftHeadings: true });
+        expect(tidy(content)).toBe('# Host\n#### Subsection\n\n##### Section\nText\n###### Part\nMore\n\nInline A quote text');
+    });
+
+    test('wraps embeds on their own line', async () => {
+        const content = await resolveEmbeds(vault, await vault.read('Host.md'), 'Host.md', { maxEmbedDepth: 5, wrapper: 'source' });
+        expect(tidy(content)).toBe(
+            '# Host\n#### Subsection\n\n' +
+            '> From [[Source#Section]]:\n>\n> ## Section\n> Text\n> ### Part\n> More\n\n' +
+            'Inline A quote text'
+        );
+    });
+});
+
+describe('source attribution', () => {
+    const vault = new MemoryVault({
+        'Host.md': 'Intro ![[Source#^one]] and again ![[Source#^one]]\n\n![[Folder/Other#Heading]]\n\n```\n![[Source#^one]]\n```',
+        'Source.md': 'First block ^one',
+        'Folder/Other.md': '# Heading\nText'
+    });
+    const formatSource = (path: string, subpath: string) => subpath ? `${path}#${subpath}` : path;
+
+    test('numbers footnotes in order and reuses them for repeated sources', async () => {
+        const content = await resolveEmbeds(vault, await vault.read('Host.md'), 'Host.md', { maxEmbedDepth: 5, formatSource });
+        expect(tidy(content)).toBe(
+            'Intro First block[^source-1] and again First block[^source-1]\n\n' +
+            '# Heading\nText[^source-2]\n\n' +
+            '```\n![[Source#^one]]\n```\n\n' +
+            '## Sources\n\n' +
+            '[^source-1]: Source.md#^one\n' +
+            '[^source-2]: Folder/Other.md#Heading'
+        );
+    });
+
+    test('adds nothing without embeds', async () => {
+        const content = await resolveEmbeds(vault, 'No embeds here', 'Note.md', { maxEmbedDepth: 5, formatSource });
+        expect(content).toBe('No embeds here');
+    });
+});
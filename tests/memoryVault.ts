@@ -0,0 +1,84 @@
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { join, relative, sep } from 'path';
+import type { CachedMetadata } from 'obsidian';
+import type { VaultAccess, VaultFile } from '../exporter';
+
+/**
+ * An in-memory vault for running the exporter without Obsidian.
+ * Links resolve like Obsidian's shortest-path links: an exact path first, then the
+ * shortest path that ends with the link. There is no metadata cache unless one is given,
+ * so headings and blocks are read from the text.
+ */
+export class MemoryVault implements VaultAccess {
+    files: Map<string, string>;
+    caches: Map<string, CachedMetadata>;
+
+    constructor(files: Record<string, string>, caches: Record<string, CachedMetadata> = {}) {
+        this.files = new Map(Object.entries(files));
+        this.caches = new Map(Object.entries(caches));
+    }
+
+    async read(path: string): Promise<string> {
+        const content = this.files.get(path);
+        if (content === undefined) {
+            throw new Error(`File not found: ${path}`);
+        }
+        return content;
+    }
+
+    resolveLink(linkpath: string, sourcePath: string): VaultFile | null {
+        const candidates = /\.[a-z0-9]+$/i.test(linkpath) ? [linkpath] : [`${linkpath}.md`, linkpath];
+
+        // Links relative to the note's folder, then from the vault root
+        const folder = sourcePath.split('/').slice(0, -1).join('/');
+        for (const candidate of candidates) {
+            for (const path of folder ? [`${folder}/${candidate}`, candidate] : [candidate]) {
+                if (this.files.has(path)) {
+                    return toVaultFile(path);
+                }
+            }
+        }
+
+        for (const candidate of candidates) {
+            const matches = Array.from(this.files.keys())
+                .filter(path => path === candidate || path.endsWith(`/${candidate}`))
+                .sort((a, b) => a.length - b.length);
+            if (matches.length > 0) {
+                return toVaultFile(matches[0]);
+            }
+        }
+
+        return null;
+    }
+
+    getFileCache(path: string): CachedMetadata | null {
+        return this.caches.get(path) ?? null;
+    }
+}
+
+function toVaultFile(path: string): VaultFile {
+    const name = path.split('/').pop() ?? path;
+    const dot = name.lastIndexOf('.');
+    return { path, extension: dot === -1 ? '' : name.slice(dot + 1) };
+}
+
+/**
+ * Loads a fixture vault from disk into a MemoryVault, with vault paths relative to the folder
+ */
+export function loadFixtureVault(folder: string): MemoryVault {
+    const files: Record<string, string> = {};
+
+    const walk = (current: string) => {
+        for (const entry of readdirSync(current)) {
+            const fullPath = join(current, entry);
+            if (statSync(fullPath).isDirectory()) {
+                walk(fullPath);
+            } else {
+                files[relative(folder, fullPath).split(sep).join('/')] = readFileSync(fullPath, 'utf8');
+            }
+        }
+    };
+    walk(folder);
+
+    return new MemoryVault(files);
+}
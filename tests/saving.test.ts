@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test';
+import { appendExport, applyPathTemplate, buildHtmlDocument, findFreePath, markdownToPlainText, sanitizeFileName, sanitizeVaultPath, TemplateValues } from '../saving';
+
+describe('plain text', () => {
+    test('strips Markdown syntax', () => {
+        const content = [
+            '## Heading',
+            '> Quote with **bold**, *italics*, ~~struck~~ and ==marked== text',
+            '- [x] Done task with `code`',
+            'A [link](https://example.com), ![image](photo.png), [[Note|alias]] and [[Other]]',
+            '<span>HTML</span> and snake_case_name',
+            '***'
+        ].join('\n');
+
+        expect(markdownToPlainText(content)).toBe([
+            'Heading',
+            'Quote with bold, italics, struck and marked text',
+            '- Done task with code',
+            'A link, image, alias and Other',
+            'HTML and snake_case_name',
+            ''
+        ].join('\n'));
+    });
+
+    test('keeps code without its fences and turns tables into tab-separated rows', () => {
+        const content = '```js\nconst **a** = 1;\n```\n| Name | Value |\n| --- | :-: |\n| a | 1 |';
+        expect(markdownToPlainText(content)).toBe('const **a** = 1;\nName\tValue\na\t1');
+    });
+});
+
+describe('HTML documents', () => {
+    test('wraps the body with an escaped title and print styles', () => {
+        const html = buildHtmlDocument('Q&A <draft>', '<p>Body</p>');
+
+        expect(html).toStartWith('<!DOCTYPE html>');
+        expect(html).toContain('<title>Q&amp;A &lt;draft&gt;</title>');
+        expect(html).toContain('<article>\n<p>Body</p>\n</article>');
+        expect(html).toContain('@media print');
+    });
+});
+
+describe('path templates', () => {
+    const values: TemplateValues = {
+        vaultName: 'Work: Notes',
+        basename: 'Plan',
+        folder: 'Projects/2024',
+        profileName: 'LLM/Chat',
+        frontmatter: { Title: 'Q1 / Q2', tags: ['a', 'b'] },
+        formatDate: format => format.replace('YYYY', '2024').replace('MM', '01').replace('DD', '31').replace('HH', '14').replace('mm', '25')
+    };
+
+    test('fills in tokens, making values safe for file names', () => {
+        expect(applyPathTemplate('{{vault}}/{{folder}}/{{basename}} {{profile}}', values)).toBe('Work- Notes/Projects/2024/Plan LLM-Chat');
+        expect(applyPathTemplate('{{date}} {{date:HH:mm}}', values)).toBe('2024-01-31 14-25');
+        expect(applyPathTemplate('{{fm.title}} {{fm.tags}} {{fm.missing}}.', values)).toBe('Q1 - Q2 a, b .');
+        expect(applyPathTemplate('{{unknown}}', values)).toBe('{{unknown}}');
+    });
+
+    test('sanitizes file names and vault paths', () => {
+        expect(sanitizeFileName('What? A "draft" #1. ')).toBe('What- A -draft- -1');
+        expect(sanitizeVaultPath('/Exports\\Drafts//Plan: v2.md/')).toBe('Exports/Drafts/Plan- v2.md');
+    });
+});
+
+describe('existing files', () => {
+    const formatDate = (format: string) => format === 'YYYY-MM-DD HHmmss' ? '2024-01-31 142500' : '2024-01-31 14:25';
+
+    test('finds the next free numbered or timestamped name', () => {
+        const taken = new Set(['Exports/Plan.md', 'Exports/Plan (2).md', 'Exports/Plan 2024-01-31 142500.md']);
+        const exists = (path: string) => taken.has(path);
+
+        expect(findFreePath('Exports/Plan.md', 'suffix', exists, formatDate)).toBe('Exports/Plan (3).md');
+        expect(findFreePath('Exports/Plan.md', 'timestamp', exists, formatDate)).toBe('Exports/Plan 2024-01-31 142500 (2).md');
+        expect(findFreePath('Exports/v1.2/Notes', 'suffix', exists, formatDate)).toBe('Exports/v1.2/Notes (2)');
+    });
+
+    test('appends exports after a dated separator', () => {
+        expect(appendExport('First\n\n', 'Second', 'markdown', formatDate)).toBe('First\n\n---\n\n*Exported 2024-01-31 14:25*\n\nSecond');
+        expect(appendExport('First', 'Second', 'text', formatDate)).toBe('First\n\n----- Exported 2024-01-31 14:25 -----\n\nSecond');
+    });
+
+    test('appends only the body of a new HTML document', () => {
+        const existing = '<html><body>\n<p>First</p>\n</body></html>';
+        expect(appendExport(existing, '<html><body><p>Second</p></body></html>', 'html', formatDate))
+            .toBe('<html><body>\n<p>First</p>\n<hr>\n<p><em>Exported 2024-01-31 14:25</em></p>\n<p>Second</p>\n</body></html>');
+    });
+});
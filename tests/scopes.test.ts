@@ -0,0 +1,57 @@
+import { describe, expect, test } from 'bun:test';
+import { getListAt, getSectionAt } from '../scopes';
+
+const note = [
+    '# Title',             // 0
+    'Intro',               // 1
+    '## Tasks',            // 2
+    '- First',             // 3
+    '  continued',         // 4
+    '\t- Nested',          // 5
+    '',                    // 6
+    '- Loose item',        // 7
+    '',                    // 8
+    'After the list',      // 9
+    '```',                 // 10
+    '# Not a heading',     // 11
+    '- not a list',        // 12
+    '```',                 // 13
+    '### Detail',          // 14
+    '1. One',              // 15
+    '2. Two',              // 16
+    '## Next',             // 17
+    'Text'                 // 18
+].join('\n');
+
+describe('section scope', () => {
+    test('takes the section under the nearest heading above the line', () => {
+        expect(getSectionAt(note, 12)).toBe(note.split('\n').slice(2, 17).join('\n'));
+        expect(getSectionAt(note, 16)).toBe('### Detail\n1. One\n2. Two');
+        expect(getSectionAt(note, 18)).toBe('## Next\nText');
+    });
+
+    test('returns null above the first heading', () => {
+        expect(getSectionAt('Text\n# Heading', 0)).toBeNull();
+    });
+
+    test('uses the text as given rather than a stale cache', () => {
+        // A heading that was just typed counts right away
+        expect(getSectionAt(note + '\n## Just typed\nNew', 20)).toBe('## Just typed\nNew');
+    });
+});
+
+describe('list scope', () => {
+    test('takes the whole list with nested items, continuations and loose items', () => {
+        const list = '- First\n  continued\n\t- Nested\n\n- Loose item';
+        expect(getListAt(note, 3)).toBe(list);
+        expect(getListAt(note, 5)).toBe(list);
+        expect(getListAt(note, 7)).toBe(list);
+        expect(getListAt(note, 16)).toBe('1. One\n2. Two');
+    });
+
+    test('returns null outside lists and in code blocks', () => {
+        expect(getListAt(note, 1)).toBeNull();
+        expect(getListAt(note, 9)).toBeNull();
+        expect(getListAt(note, 12)).toBeNull();
+    });
+});
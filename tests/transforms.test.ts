@@ -0,0 +1,205 @@
+import { describe, expect, test } from 'bun:test';
+import { resolveEmbeds } from '../exporter';
+import { FrontmatterOptions, getContentStats, LinkOptions, normalizeSyntax, processFrontmatter, relativePath, removeEmbeds, rewriteWikilinks, SyntaxOptions, truncateToTokens, wrapDocument } from '../transforms';
+import { MemoryVault } from './memoryVault';
+
+describe('frontmatter', () => {
+    const note = '---\ntitle: Plan\ntags: [project, draft]\naliases: [Roadmap]\n---\nBody';
+    // Enough YAML for flat "key: value" and "key: [a, b]" lines
+    const yaml = {
+        parse: (block: string) => Object.fromEntries(block.trim().split('\n').map(line => {
+            const [key, value] = line.split(/:\s*/);
+            return [key, value.startsWith('[') ? value.slice(1, -1).split(/,\s*/) : value];
+        })),
+        stringify: (data: Record<string, unknown>) => Object.entries(data).map(([key, value]) => `${key}: ${value}\n`).join('')
+    };
+    const options = (overrides: Partial<FrontmatterOptions>): FrontmatterOptions => ({
+        frontmatterKeep: 'all',
+        frontmatterKeys: [],
+        frontmatterFormat: 'yaml',
+        dropObsidianFrontmatter: true,
+        ...overrides
+    });
+
+    test('removes the frontmatter', () => {
+        expect(processFrontmatter(note, options({ frontmatterKeep: 'none' }), yaml)).toBe('Body');
+        expect(processFrontmatter('---\r\ntitle: Plan\r\n---\r\nBody', options({ frontmatterKeep: 'none' }), yaml)).toBe('Body');
+    });
+
+    test('keeps selected keys as YAML, without Obsidian-only keys', () => {
+        expect(processFrontmatter(note, options({}), yaml)).toBe('---\ntitle: Plan\ntags: project,draft\n---\nBody');
+        expect(processFrontmatter(note, options({ frontmatterKeep: 'include', frontmatterKeys: ['Title'] }), yaml))
+            .toBe('---\ntitle: Plan\n---\nBody');
+        expect(processFrontmatter(note, options({ frontmatterKeep: 'exclude', frontmatterKeys: ['title'], dropObsidianFrontmatter: false }), yaml))
+            .toBe('---\ntags: project,draft\naliases: Roadmap\n---\nBody');
+    });
+
+    test('writes a readable header', () => {
+        expect(processFrontmatter(note, options({ frontmatterFormat: 'header' }), yaml))
+            .toBe('**Title:** Plan  \n**Tags:** project, draft\n\nBody');
+    });
+
+    test('prefers the cached frontmatter and drops the block when nothing is kept', () => {
+        expect(processFrontmatter(note, options({ frontmatterFormat: 'header' }), yaml, { status: 'done' }))
+            .toBe('**Status:** done\n\nBody');
+        expect(processFrontmatter(note, options({ frontmatterKeep: 'include', frontmatterKeys: ['missing'] }), yaml)).toBe('Body');
+    });
+
+    test('leaves notes without frontmatter alone', () => {
+        expect(processFrontmatter('Body\n---\nMore', options({}), yaml)).toBe('Body\n---\nMore');
+    });
+});
+
+describe('syntax normalization', () => {
+    const options: SyntaxOptions = {
+        stripComments: true,
+        highlightFormat: 'mark',
+        calloutFormat: 'label',
+        tagFormat: 'text',
+        inlineFieldFormat: 'text'
+    };
+
+    test('converts comments, highlights, callouts, tags and fields', () => {
+        const content = [
+            'Visible %%hidden%% text',
+            '%% a comment',
+            'on two lines %%',
+            'A ==highlight== and #project/alpha but not #1',
+            '> [!warning]- Careful',
+            '> Body',
+            'status:: draft',
+            'Inline [due:: today] and (owner:: Sam)'
+        ].join('\n');
+
+        expect(normalizeSyntax(content, options)).toBe([
+            'Visible  text',
+            'A <mark>highlight</mark> and project/alpha but not #1',
+            '> **WARNING:** Careful',
+            '> Body',
+            '**status:** draft',
+            'Inline **due:** today and Sam'
+        ].join('\n'));
+    });
+
+    test('removes tags with the space next to them', () => {
+        const content = '#tag at start\nA #tag between words\nAt the end #tag\nBefore #tag, a comma\n#one #two in a row';
+        expect(normalizeSyntax(content, { ...options, tagFormat: 'remove' }))
+            .toBe('at start\nA between words\nAt the end\nBefore, a comma\nin a row');
+    });
+
+    test('leaves code and math untouched', () => {
+        const content = '`==code==` $a==b$\n```\n%% comment %% #tag\n```';
+        expect(normalizeSyntax(content, options)).toBe(content);
+    });
+
+    test('keeps everything when set to keep', () => {
+        const content = '%% comment %% ==highlight== #tag\n> [!note]\nkey:: value';
+        expect(normalizeSyntax(content, {
+            stripComments: false,
+            highlightFormat: 'keep',
+            calloutFormat: 'keep',
+            tagFormat: 'keep',
+            inlineFieldFormat: 'keep'
+        })).toBe(content);
+    });
+
+    test('normalizes embedded content when run after embeds are resolved', async () => {
+        const vault = new MemoryVault({
+            'Host.md': 'Host text: ![[Embedded]]',
+            'Embedded.md': 'Embedded %%private note%%text with a ==highlight=='
+        });
+        const resolved = await resolveEmbeds(vault, await vault.read('Host.md'), 'Host.md', { maxEmbedDepth: 5 });
+
+        expect(normalizeSyntax(resolved, options)).toBe('Host text: Embedded text with a <mark>highlight</mark>');
+    });
+});
+
+describe('token budget', () => {
+    test('counts characters, words and tokens', () => {
+        expect(getContentStats('One two\nthree')).toEqual({ characters: 13, words: 3, tokens: 4 });
+    });
+
+    test('truncates at a line break and marks the cut', () => {
+        const content = Array.from({ length: 20 }, (_, i) => `Line ${i} with some text`).join('\n');
+        const truncated = truncateToTokens(content, 40);
+
+        expect(truncated.length).toBeLessThanOrEqual(160);
+        expect(truncated).toEndWith('with some text\n\n[Truncated to fit the token budget]');
+        expect(truncateToTokens('Short', 40)).toBe('Short');
+    });
+
+    test('drops embeds but not the ones written in code', () => {
+        expect(removeEmbeds('Text ![[Note]] and ![[Note#^id|alias]]\n`![[inline]]`\n```\n![[fenced]]\n```'))
+            .toBe('Text  and \n`![[inline]]`\n```\n![[fenced]]\n```');
+    });
+});
+
+describe('context bundle', () => {
+    test('wraps notes in document sections with an escaped path', () => {
+        expect(wrapDocument('Notes/Q&A "draft" <1>.md', '\nText\n\n'))
+            .toBe('<document path="Notes/Q&amp;A &quot;draft&quot; &lt;1>.md">\nText\n</document>');
+    });
+});
+
+describe('relative paths', () => {
+    test('points from the note\'s folder to the target', () => {
+        expect(relativePath('Note.md', 'attachments/photo.png')).toBe('attachments/photo.png');
+        expect(relativePath('Projects/Note.md', 'Projects/images/photo.png')).toBe('images/photo.png');
+        expect(relativePath('Projects/Deep/Note.md', 'attachments/photo.png')).toBe('../../attachments/photo.png');
+        expect(relativePath('Projects/Note.md', 'Projects/Other.md')).toBe('Other.md');
+        expect(relativePath('', 'Folder/Note.md')).toBe('Folder/Note.md');
+    });
+});
+
+describe('link rewriting', () => {
+    const vault = new MemoryVault({
+        'Projects/Plan.md': '',
+        'Projects/Tasks.md': '',
+        'Archive/Old Note.md': ''
+    });
+    const rewrite = (content: string, linkFormat: LinkOptions['linkFormat'], linkBaseUrl = '') =>
+        rewriteWikilinks(vault, content, 'Projects/Plan.md', { linkFormat, linkBaseUrl, vaultName: 'My Vault' });
+
+    test('writes display text', () => {
+        expect(rewrite('[[Tasks]], [[Old Note#Intro|the intro]] and [[#Goals#Q1]]', 'text'))
+            .toBe('Tasks, the intro and Plan > Goals > Q1');
+    });
+
+    test('writes Markdown links relative to the note', () => {
+        expect(rewrite('[[Tasks]] and [[Old Note#Next Steps]]', 'markdown'))
+            .toBe('[Tasks](Tasks.md) and [Old Note > Next Steps](../Archive/Old%20Note.md#next-steps)');
+    });
+
+    test('keeps links into the note itself as in-document anchors', () => {
+        expect(rewrite('[[#Goals]], [[#^abc123|block]], [[^def456|other]] and [[Plan#Goals]]', 'markdown'))
+            .toBe('[Plan > Goals](#goals), [block](#^abc123), [other](#^def456) and [Plan > Goals](#goals)');
+        expect(rewrite('[[#Goals]]', 'obsidian-uri')).toBe('[Plan > Goals](#goals)');
+        expect(rewrite('[[#Goals]]', 'base-url', 'https://example.com/')).toBe('[Plan > Goals](#goals)');
+    });
+
+    test('writes Obsidian URIs and published site links from the vault root', () => {
+        expect(rewrite('[[Old Note]]', 'obsidian-uri'))
+            .toBe('[Old Note](obsidian://open?vault=My%20Vault&file=Archive%2FOld%20Note.md)');
+        expect(rewrite('[[Old Note#Next Steps]]', 'base-url', 'https://example.com/'))
+            .toBe('[Old Note > Next Steps](https://example.com/Archive/Old%20Note#next-steps)');
+    });
+
+    test('keeps links inside embedded notes pointing into those notes', async () => {
+        const embedVault = new MemoryVault({
+            'Projects/Plan.md': 'See [[#Goals]] and ![[Old Note]]',
+            'Archive/Old Note.md': 'Back to [[#Intro]], [[^abc123|the block]] or `[[#code]]`'
+        });
+        const resolved = await resolveEmbeds(embedVault, await embedVault.read('Projects/Plan.md'), 'Projects/Plan.md', { maxEmbedDepth: 5 });
+        const options: LinkOptions = { linkFormat: 'markdown', linkBaseUrl: '', vaultName: 'My Vault' };
+
+        expect(rewriteWikilinks(embedVault, resolved, 'Projects/Plan.md', options))
+            .toBe('See [Plan > Goals](#goals) and Back to [Old Note > Intro](../Archive/Old%20Note.md#intro), [the block](../Archive/Old%20Note.md#^abc123) or `[[#code]]`');
+        expect(rewriteWikilinks(embedVault, resolved, 'Projects/Plan.md', { ...options, linkFormat: 'text' }))
+            .toBe('See Plan > Goals and Back to Old Note > Intro, the block or `[[#code]]`');
+    });
+
+    test('keeps unresolved links as written and leaves embeds and code alone', () => {
+        expect(rewrite('[[Missing]] ![[Tasks]] `[[Tasks]]`', 'markdown'))
+            .toBe('[Missing](Missing.md) ![[Tasks]] `[[Tasks]]`');
+    });
+});
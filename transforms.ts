@@ -0,0 +1,339 @@
+import { VaultAccess, protectCode } from './exporter';
+
+// Which frontmatter keys survive the metadata step, and how they are written
+export type FrontmatterKeep = 'none' | 'all' | 'include' | 'exclude';
+export type FrontmatterFormat = 'yaml' | 'header';
+
+export interface FrontmatterOptions {
+    frontmatterKeep: FrontmatterKeep;
+    frontmatterKeys: string[]; // Keys for the 'include' and 'exclude' modes
+    frontmatterFormat: FrontmatterFormat;
+    dropObsidianFrontmatter: boolean; // Drop keys like aliases and cssclasses even when keeping the rest
+}
+
+// Reads and writes YAML; the plugin passes Obsidian's parseYaml and stringifyYaml
+export interface YamlConverter {
+    parse(yaml: string): unknown;
+    stringify(data: Record<string, unknown>): string;
+}
+
+// Frontmatter keys that only mean something inside Obsidian
+const OBSIDIAN_FRONTMATTER_KEYS = ['aliases', 'alias', 'cssclasses', 'cssclass', 'publish', 'permalink', 'position'];
+
+// Matches the frontmatter block at the start of a note, with LF or CRLF line endings
+const FRONTMATTER_PATTERN = /^---\r?\n(?:[\s\S]*?\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+// How each Obsidian-only construct is written by the syntax normalization step
+export type HighlightFormat = 'keep' | 'mark' | 'bold';
+export type CalloutFormat = 'keep' | 'label';
+export type TagFormat = 'keep' | 'text' | 'remove';
+export type InlineFieldFormat = 'keep' | 'text' | 'remove';
+
+// How plain [[wikilinks]] are written in the export
+export type LinkFormat = 'text' | 'markdown' | 'obsidian-uri' | 'base-url';
+
+export interface LinkOptions {
+    linkFormat: LinkFormat;
+    linkBaseUrl: string; // Base URL of the published vault, used by the 'base-url' link format
+    vaultName: string; // Used by the 'obsidian-uri' link format
+}
+
+export interface SyntaxOptions {
+    stripComments: boolean; // Remove %% comments %%
+    highlightFormat: HighlightFormat; // ==highlights==
+    calloutFormat: CalloutFormat; // > [!note] callouts
+    tagFormat: TagFormat; // Inline #tags
+    inlineFieldFormat: InlineFieldFormat; // Dataview key:: value fields
+}
+
+/**
+ * Removes the frontmatter, or keeps the selected keys as YAML or a readable header
+ * @param content The markdown content to process
+ * @param options Which keys to keep, and how to write them
+ * @param yaml Parses the frontmatter block and writes the kept keys
+ * @param cached The note's frontmatter from the metadata cache, used instead of parsing when available
+ * @returns Content with the frontmatter processed
+ */
+export function processFrontmatter(content: string, options: FrontmatterOptions, yaml: YamlConverter, cached?: Record<string, unknown>): string {
+    const match = FRONTMATTER_PATTERN.exec(content);
+    if (!match) {
+        return content;
+    }
+
+    const body = content.slice(match[0].length);
+    if (options.frontmatterKeep === 'none') {
+        return body;
+    }
+
+    // Prefer the metadata cache, fall back to parsing the block ourselves
+    let frontmatter = cached;
+    if (!frontmatter) {
+        try {
+            const block = match[0].replace(/^---\r?\n/, '').replace(/---[ \t]*(?:\r?\n)?$/, '');
+            frontmatter = (yaml.parse(block) ?? {}) as Record<string, unknown>;
+        } catch (error) {
+            console.error('Failed to parse frontmatter:', error);
+            return content;
+        }
+    }
+
+    const keys = options.frontmatterKeys.map(key => key.toLowerCase());
+    const kept: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(frontmatter)) {
+        const lowerKey = key.toLowerCase();
+        if (options.dropObsidianFrontmatter && OBSIDIAN_FRONTMATTER_KEYS.includes(lowerKey)) continue;
+        if (options.frontmatterKeep === 'include' && !keys.includes(lowerKey)) continue;
+        if (options.frontmatterKeep === 'exclude' && keys.includes(lowerKey)) continue;
+        kept[key] = value;
+    }
+
+    if (Object.keys(kept).length === 0) {
+        return body;
+    }
+
+    if (options.frontmatterFormat === 'yaml') {
+        return `---\n${yaml.stringify(kept)}---\n${body}`;
+    }
+
+    // Readable header, e.g. "**Tags:** project, draft"
+    const lines = Object.entries(kept).map(([key, value]) => {
+        const label = key.charAt(0).toUpperCase() + key.slice(1);
+        let text: string;
+        if (Array.isArray(value)) {
+            text = value.join(', ');
+        } else if (value !== null && typeof value === 'object') {
+            text = JSON.stringify(value);
+        } else {
+            text = String(value ?? '');
+        }
+        return `**${label}:** ${text}`;
+    });
+
+    return `${lines.join('  \n')}\n\n${body.replace(/^\s*\n/, '')}`;
+}
+
+/**
+ * Converts Obsidian-only syntax into portable Markdown
+ * @param content The markdown content to process
+ * @param options Which constructs to convert, and how
+ * @returns The normalized content
+ */
+export function normalizeSyntax(content: string, options: SyntaxOptions): string {
+    // Code and math are left exactly as written
+    const { text, restore } = protectCode(content);
+    content = text;
+
+    if (options.stripComments) {
+        // Comments on their own lines take the line with them
+        content = content.replace(/^[ \t]*%%[\s\S]*?%%[ \t]*(?:\n|$)/gm, '');
+        content = content.replace(/%%[\s\S]*?%%/g, '');
+    }
+
+    if (options.highlightFormat !== 'keep') {
+        content = content.replace(/==(?=\S)([^=\n]+?)==/g, (_match, text: string) =>
+            options.highlightFormat === 'mark' ? `<mark>${text}</mark>` : `**${text}**`);
+    }
+
+    if (options.calloutFormat === 'label') {
+        // "> [!warning]- Title" becomes "> **WARNING:** Title"
+        content = content.replace(/^(\s*(?:>\s*)+)\[!([^\]]+)\][+-]?[ \t]*(.*)$/gm, (_match, quote: string, type: string, title: string) =>
+            `${quote}**${type.trim().toUpperCase()}:**${title ? ' ' + title : ''}`);
+    }
+
+    // Tags need at least one non-digit character, so "#1" isn't a tag
+    if (options.tagFormat === 'text') {
+        content = content.replace(/(^|\s)#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gmu, (_match, before: string, tag: string) =>
+            `${before}${tag}`);
+    } else if (options.tagFormat === 'remove') {
+        content = content.replace(/([ \t]*)(?<=^|\s)#[\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*([ \t]*)/gmu,
+            (match: string, before: string, after: string, offset: number, source: string) => {
+                const lineStart = offset === 0 || source[offset - 1] === '\n';
+                const next = source[offset + match.length];
+                // At the start of a line or between words, the space after the tag goes with it;
+                // before punctuation or at the end of the line, the space before it
+                return lineStart || (after && next !== undefined && next !== '\n') ? before + after.slice(1) : after;
+            });
+    }
+
+    if (options.inlineFieldFormat !== 'keep') {
+        const asText = options.inlineFieldFormat === 'text';
+
+        // Fields on their own line, optionally as a list item: "key:: value"
+        content = content.replace(/^([ \t]*(?:[-*+][ \t]+|\d+\.[ \t]+)?)([^\s:`[\]()][^:`\n[\]()]*?)::[ \t]*(.*)(?:\n|$)/gm, (match, prefix: string, key: string, value: string) =>
+            asText ? `${prefix}**${key.trim()}:** ${value}${match.endsWith('\n') ? '\n' : ''}` : '');
+
+        // Inline fields: "[key:: value]" shows the key, "(key:: value)" only the value
+        content = content.replace(/\[([^[\]:\n]+?)::[ \t]*([^\]\n]*)\]/g, (_match, key: string, value: string) =>
+            asText ? `**${key.trim()}:** ${value.trim()}` : '');
+        content = content.replace(/\(([^()\n:]+?)::[ \t]*([^)\n]*)\)/g, (_match, _key: string, value: string) =>
+            asText ? value.trim() : '');
+    }
+
+    return restore(content);
+}
+
+/**
+ * Rewrites plain [[wikilinks]] (not embeds) in the given link format.
+ * Links to a heading or block of the note itself become in-document #anchors,
+ * and Markdown links are relative to the note.
+ * @param vault Resolves links to vault files
+ * @param content The markdown content to process
+ * @param sourcePath Path of the note the content comes from
+ * @param options Link format and what it needs
+ * @returns Content with wikilinks replaced
+ */
+export function rewriteWikilinks(vault: VaultAccess, content: string, sourcePath: string, options: LinkOptions): string {
+    // Pattern to match [[file]], [[file#heading]], [[#^blockId]] and [[file|alias]], but not ![[embeds]]
+    const linkPattern = /(?<!!)\[\[([^\]|#]*)(?:#([^\]|]*))?(?:\|([^\]]*))?\]\]/g;
+    const format = options.linkFormat;
+    const { text, restore } = protectCode(content);
+
+    return restore(text.replace(linkPattern, (fullMatch: string, linkPath: string, subpath: string | undefined, alias: string | undefined) => {
+        linkPath = linkPath.trim();
+        subpath = subpath ? subpath.trim() : "";
+
+        // [[^blockId]] is short for [[#^blockId]]
+        if (linkPath.startsWith('^') && !subpath) {
+            subpath = linkPath;
+            linkPath = "";
+        }
+
+        // Links without a file part point into the note itself
+        const targetFile = linkPath ? vault.resolveLink(linkPath, sourcePath) : null;
+
+        // Display text follows Obsidian: alias, else "Note > Heading"
+        let text = alias ? alias.trim() : "";
+        if (!text) {
+            const noteName = (linkPath || sourcePath).split('/').pop()?.replace(/\.md$/, '') ?? "";
+            const heading = subpath && !subpath.startsWith('^') ? subpath.replace(/#/g, ' > ') : "";
+            text = noteName && heading ? `${noteName} > ${heading}` : (noteName || heading);
+        }
+
+        if (format === 'text' || !text) {
+            return text;
+        }
+
+        const anchor = subpath ? `#${toLinkAnchor(subpath)}` : "";
+
+        // A heading or block of the exported note is in the same document
+        if (anchor && (!linkPath || (targetFile && targetFile.path === sourcePath))) {
+            return `[${text}](${anchor})`;
+        }
+
+        // Unresolved links keep the path as written
+        let path = targetFile ? targetFile.path : (linkPath || sourcePath);
+        if (!path) {
+            return text;
+        }
+        if (!targetFile && !/\.[a-zA-Z0-9]+$/.test(path)) {
+            path += '.md';
+        }
+
+        if (format === 'markdown') {
+            const relative = targetFile ? relativePath(sourcePath, path) : path;
+            return `[${text}](${encodeURI(relative)}${anchor})`;
+        }
+
+        if (format === 'obsidian-uri') {
+            const vaultName = encodeURIComponent(options.vaultName);
+            const file = encodeURIComponent(path + (subpath ? `#${subpath}` : ""));
+            return `[${text}](obsidian://open?vault=${vaultName}&file=${file})`;
+        }
+
+        // Published vaults serve notes without the .md extension
+        const baseUrl = options.linkBaseUrl.replace(/\/+$/, '');
+        if (!baseUrl) {
+            return text;
+        }
+        const urlPath = path.replace(/\.md$/, '').split('/').map(encodeURIComponent).join('/');
+        return `[${text}](${baseUrl}/${urlPath}${anchor})`;
+    }));
+}
+
+/**
+ * Converts a link subpath into a URL anchor.
+ * Block IDs keep Obsidian's ^id form, headings become lowercase dash-separated slugs.
+ */
+export function toLinkAnchor(subpath: string): string {
+    if (subpath.startsWith('^')) {
+        return subpath;
+    }
+
+    // Nested heading paths link to the last heading
+    const heading = subpath.split('#').pop() ?? subpath;
+    return heading.trim().toLowerCase()
+        .replace(/[^\p{L}\p{N}\s-]/gu, '')
+        .replace(/\s+/g, '-');
+}
+
+// Size of processed output, for staying within LLM context limits
+export interface ContentStats {
+    characters: number;
+    words: number;
+    tokens: number; // Rough estimate, about four characters per token
+}
+
+/**
+ * Counts characters, words and approximate tokens of processed content
+ */
+export function getContentStats(content: string): ContentStats {
+    const words = content.match(/\S+/g);
+    return {
+        characters: content.length,
+        words: words ? words.length : 0,
+        tokens: Math.ceil(content.length / 4)
+    };
+}
+
+/**
+ * Cuts content down to roughly the given number of tokens, at a line break where possible
+ */
+export function truncateToTokens(content: string, tokens: number): string {
+    const marker = '\n\n[Truncated to fit the token budget]';
+    const maxLength = Math.max(0, tokens * 4 - marker.length);
+    if (content.length <= maxLength) {
+        return content;
+    }
+
+    let truncated = content.slice(0, maxLength);
+    const lastLineBreak = truncated.lastIndexOf('\n');
+    if (lastLineBreak > maxLength / 2) {
+        truncated = truncated.slice(0, lastLineBreak);
+    }
+    return truncated.trimEnd() + marker;
+}
+
+/**
+ * Removes ![[embeds]] from the content, except where they are written in code
+ */
+export function removeEmbeds(content: string): string {
+    const { text, restore } = protectCode(content);
+    return restore(text.replace(/!\[\[[^\]]*\]\]/g, ''));
+}
+
+/**
+ * Wraps a note for the context bundle in a <document path="..."> section
+ * @param path Vault path of the note, escaped for use in the attribute
+ * @param content The processed note
+ */
+export function wrapDocument(path: string, content: string): string {
+    const attribute = path.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+    return `<document path="${attribute}">\n${content.trim()}\n</document>`;
+}
+
+/**
+ * Makes a vault path relative to the folder of a note, e.g. for links in an exported note
+ * @param fromPath Vault path of the note the link is written in; empty for the vault root
+ * @param toPath Vault path the link points to
+ */
+export function relativePath(fromPath: string, toPath: string): string {
+    const from = fromPath.split('/').slice(0, -1);
+    const to = toPath.split('/');
+
+    let common = 0;
+    while (common < from.length && common < to.length - 1 && from[common] === to[common]) {
+        common++;
+    }
+
+    return [...from.slice(common).map(() => '..'), ...to.slice(common)].join('/');
+}